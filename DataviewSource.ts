@@ -0,0 +1,64 @@
+import { debounce, Events } from "obsidian";
+import PluginTaskSource from "PluginTaskSource";
+import { sourcePlugin } from "sources";
+
+// Only the parts of Dataview's list items read here
+interface DataviewListItem {
+  path: string;
+  line: number;
+  text: string;
+  task: boolean;
+  status?: string;
+  parent?: number;
+  blockId?: string;
+}
+
+interface DataviewApi {
+  index: { initialized: boolean };
+  pages(): { file: { lists: { array(): DataviewListItem[] } } };
+}
+
+/**
+ * Tasks from the Dataview index. Dataview keeps no raw lines, so each task
+ * line is rebuilt from its text with one indent per list level.
+ */
+export default class DataviewSource extends PluginTaskSource {
+  private scheduleReload = debounce(() => this.reload(), 500, true);
+
+  onload() {
+    const cache: Events = this.app.metadataCache;
+    this.registerEvent(cache.on('dataview:index-ready', () => this.reload()));
+    this.registerEvent(cache.on('dataview:metadata-change', () => this.scheduleReload()));
+    if (this.api()?.index.initialized) this.reload();
+  }
+
+  onunload() {
+    this.scheduleReload.cancel();
+    super.onunload();
+  }
+
+  private api() {
+    return sourcePlugin<{ api?: DataviewApi }>(this.app, 'dataview')?.api ?? null;
+  }
+
+  private reload() {
+    const api = this.api();
+    if (!api) return;
+    const items = api.pages().file.lists.array();
+    const byLine = new Map(items.map(item => [`${item.path}:${item.line}`, item] as [string, DataviewListItem]));
+    const depth = (item: DataviewListItem) => {
+      let level = 0;
+      for (let p = item.parent; p !== undefined; p = byLine.get(`${item.path}:${p}`)?.parent) level++;
+      return level;
+    };
+    this.update(items.filter(item => item.task).map(item => {
+      const text = item.text.split('\n')[0];
+      const block = item.blockId && !text.includes(`^${item.blockId}`) ? ` ^${item.blockId}` : '';
+      return {
+        path: item.path,
+        line: item.line,
+        markdown: `${'  '.repeat(depth(item))}- [${item.status ?? ' '}] ${text}${block}`,
+      };
+    }));
+  }
+}
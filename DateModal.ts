@@ -0,0 +1,41 @@
+import { App, Modal, Setting } from "obsidian";
+import { formatDate, parseDate } from "taskParser";
+
+/** Asks for a single date. Submitting an empty field clears the date. */
+export default class DateModal extends Modal {
+  constructor(app: App, private title: string, private initial: Date | null, private onSubmit: (date: Date | null) => void) {
+    super(app);
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    this.titleEl.setText(this.title);
+    let value = this.initial ? formatDate(this.initial) : '';
+
+    new Setting(contentEl)
+      .setName('Date')
+      .addText(text => {
+        text.inputEl.type = 'date';
+        text.setValue(value).onChange(v => value = v);
+        text.inputEl.addEventListener('keydown', e => {
+          if (e.key === 'Enter') submit();
+        });
+      });
+
+    const submit = () => {
+      this.close();
+      this.onSubmit(value ? parseDate(value) : null);
+    };
+
+    new Setting(contentEl)
+      .addButton(btn => btn.setButtonText('Clear').onClick(() => {
+        value = '';
+        submit();
+      }))
+      .addButton(btn => btn.setButtonText('Save').setCta().onClick(submit));
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,76 @@
+import { ItemView, WorkspaceLeaf } from "obsidian";
+import type TaskGraphPlugin from "main";
+import { isDone, taskById } from "filters";
+import { openTask } from "navigation";
+import { computeProgress, progressSummary } from "progress";
+import { normalizeTag } from "scope";
+import { formatDate } from "taskParser";
+import { Task } from "types";
+
+export const GOALS_VIEW_TYPE = 'task-graph-goals';
+
+/**
+ * Sidebar listing root-tagged tasks with their progress and the open leaf
+ * tasks that are left, so the next actionable step is one click away.
+ */
+export default class GoalsView extends ItemView {
+  constructor(leaf: WorkspaceLeaf, private plugin: TaskGraphPlugin) {
+    super(leaf);
+  }
+
+  getViewType() { return GOALS_VIEW_TYPE; }
+  getDisplayText() { return 'Task Goals'; }
+  getIcon() { return 'target'; }
+
+  async onOpen() {
+    this.contentEl.addClass('task-graph-goals');
+    this.contentEl.setText('Loading tasks…');
+    await this.plugin.index.ready;
+    this.render();
+    this.registerEvent(this.plugin.index.on('changed', () => this.render()));
+  }
+
+  private render() {
+    const el = this.contentEl;
+    el.empty();
+    const tasks = this.plugin.index.getTasks();
+    const byId = taskById(tasks);
+    const tags = this.plugin.settings.scope.rootTags.map(normalizeTag).filter(Boolean);
+    const goals = tasks.filter(t => !isDone(t) && t.tags.some(tag => tags.includes(tag)));
+    if (!goals.length) {
+      el.createEl('p', {
+        cls: 'task-graph-goals-empty',
+        text: tags.length ? `No open tasks tagged ${tags.join(', ')}` : 'Set root tags in the plugin settings to list goals',
+      });
+      return;
+    }
+
+    const progress = computeProgress(tasks, byId);
+    goals.forEach(goal => {
+      const section = el.createDiv('task-graph-goal');
+      const title = section.createDiv({ cls: 'task-graph-goal-title', text: goal.text });
+      title.addEventListener('click', () => this.reveal(goal));
+      const p = progress.get(goal.id);
+      if (!p?.total) {
+        section.createDiv({ cls: 'task-graph-goal-summary', text: 'No subtasks or blockers' });
+        return;
+      }
+      const bar = section.createDiv('task-graph-goal-bar');
+      bar.createDiv('task-graph-goal-bar-fill').style.width = `${100 * p.done / p.total}%`;
+      section.createDiv({ cls: 'task-graph-goal-summary', text: progressSummary(p) });
+      const list = section.createEl('ul');
+      p.openLeaves.forEach(leaf => {
+        const date = leaf.due ?? leaf.scheduled;
+        const item = list.createEl('li', { text: date ? `${leaf.text} (${formatDate(date)})` : leaf.text });
+        item.addEventListener('click', () => openTask(this.app, leaf));
+      });
+    });
+  }
+
+  // Shows the goal in every open graph that has it, else opens its note
+  private reveal(goal: Task) {
+    let shown = false;
+    this.plugin.graphs.forEach(graph => { shown = graph.revealTask(goal.id) || shown; });
+    if (!shown) openTask(this.app, goal);
+  }
+}
@@ -0,0 +1,71 @@
+import { App, Component, EventRef, Events, TFile } from "obsidian";
+import { carryOverIds } from "identity";
+import { annotateTasks, TaskSource } from "sources";
+import { parseTasks } from "taskParser";
+import { Task } from "types";
+
+/** A task line as another plugin's cache reports it. */
+export interface SourceLine {
+  path: string;
+  line: number;
+  /** The line as written, indentation included. */
+  markdown: string;
+}
+
+/**
+ * Base for sources backed by another plugin's cache. Its lines are parsed
+ * the way the built-in parser does, so ids, dates and blockers agree.
+ */
+export default abstract class PluginTaskSource extends Component implements TaskSource {
+  private files = new Map<string, Task[]>();
+  private events = new Events();
+  private resolveReady: () => void = () => {};
+  readonly ready: Promise<void>;
+
+  constructor(protected app: App) {
+    super();
+    this.ready = new Promise(resolve => this.resolveReady = resolve);
+  }
+
+  onunload() {
+    this.files.clear();
+  }
+
+  on(name: 'changed', callback: () => unknown): EventRef {
+    return this.events.on(name, callback);
+  }
+
+  offref(ref: EventRef) {
+    this.events.offref(ref);
+  }
+
+  getTasks(): Task[] {
+    return ([] as Task[]).concat(...Array.from(this.files.values()));
+  }
+
+  getFileTasks(path: string): Task[] {
+    return this.files.get(path) ?? [];
+  }
+
+  /** Replaces every task with those parsed from `lines`. */
+  protected update(lines: SourceLine[]) {
+    const documents = new Map<string, string[]>();
+    lines.forEach(l => {
+      const content = documents.get(l.path) ?? [];
+      content[l.line] = l.markdown;
+      documents.set(l.path, content);
+    });
+    const files = new Map<string, Task[]>();
+    documents.forEach((content, path) => {
+      const tasks = parseTasks(Array.from(content, line => line ?? '').join('\n'), path);
+      if (!tasks.length) return;
+      carryOverIds(this.files.get(path) ?? [], tasks);
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (file instanceof TFile) annotateTasks(this.app, file, tasks);
+      files.set(path, tasks);
+    });
+    this.files = files;
+    this.resolveReady();
+    this.events.trigger('changed');
+  }
+}
@@ -0,0 +1,1681 @@
+import * as d3 from "d3";
+import { App, Component, debounce, MarkdownView, Menu, Notice, TFile } from "obsidian";
+import DateModal from "DateModal";
+import type TaskGraphPlugin from "main";
+import { TaskNode, TaskLink, Task } from "types";
+import { buildClusters, Cluster, collapseClusters, forceCluster, GROUP_NAMES, GroupMode, groupKey, summaryId } from "clusters";
+import { readTheme, ThemePalette } from "colors";
+import { COLOR_ENCODINGS, ColorEncoding, createEncoder, Encoder, MAX_SIZE_FACTOR, OUTLINE_ENCODINGS, OutlineEncoding, SIZE_ENCODINGS, SizeEncoding } from "encoding";
+import { displayText, EXPORT_FORMATS, ExportFormat, ExportStyle, shortLabel, toDot, toJson, toMermaid, toSvg } from "exporters";
+import {
+  analyzeDependencies, DanglingBlocker, DuplicateId, findCycles, findDanglingBlockers, findDuplicateIds, findSelfBlocking
+} from "analysis";
+import { buildLinks, endpointId, filterTasks, TagMatchMode, taskById } from "filters";
+import { DagDirection, LAYOUT_NAMES, layeredLayout, LayoutMode, taskDate, timeScale } from "layouts";
+import { pinKeys } from "identity";
+import { blockIndex, linkedTask } from "references";
+import { openTask } from "navigation";
+import { computeProgress, Progress, progressSummary } from "progress";
+import { searchTasks } from "search";
+import { focusOnFile, GraphScope, selectScope } from "scope";
+import { formatDate } from "taskParser";
+import { addBlocker, EditableDate, generateId, hasExplicitId, lineMatches, removeBlocker, setDate, setId, toggleDone } from "taskWriter";
+import { ViewFilters } from "settings";
+
+/** On-screen node radius, in pixels, from which each level of detail is drawn. */
+const LOD = { circle: 2, outline: 4, label: 12 };
+
+type Batches<S, T> = Map<string, { style: S; items: T[] }>;
+
+function addToBatch<S, T>(batches: Batches<S, T>, key: string, style: S, item: T) {
+  const batch = batches.get(key);
+  if (batch) batch.items.push(item);
+  else batches.set(key, { style, items: [item] });
+}
+
+interface DragSubject {
+  node: TaskNode;
+  x: number;
+  y: number;
+}
+
+interface TimelineGeometry {
+  scale: d3.ScaleTime<number, number>;
+  axisY: number;
+  laneY: number;
+}
+
+export interface TaskGraphState {
+  filters?: Partial<ViewFilters>;
+  transform?: { x: number; y: number; k: number };
+}
+
+export interface TaskGraphOptions {
+  /** Overrides the scope from plugin settings. */
+  scope?: GraphScope;
+  controls?: boolean;
+  /** Embedded graphs only zoom on ctrl/cmd + wheel so the note still scrolls, and do not follow the editor. */
+  embedded?: boolean;
+  onStateChange?: () => void;
+}
+
+/**
+ * Interactive task graph drawn into a container element. Hosted by the
+ * sidebar view and by `tasks-graph` code blocks.
+ */
+export default class TaskGraph extends Component {
+  private data: { nodes: TaskNode[]; links: TaskLink[] } = { nodes: [], links: [] };
+  private simulation: d3.Simulation<TaskNode, TaskLink> | null = null;
+  private zoom: d3.ZoomBehavior<HTMLCanvasElement, unknown> | null = null;
+  private canvas: d3.Selection<HTMLCanvasElement, unknown, null, undefined> | null = null;
+  private context: CanvasRenderingContext2D | null = null;
+  // Canvas size in CSS pixels; the backing store is scaled by devicePixelRatio
+  private width = 0;
+  private height = 0;
+  private frame: number | null = null;
+  private nodeById = new Map<string, TaskNode>();
+  private quadtree: d3.Quadtree<TaskNode> | null = null;
+  private showCompleted = true;
+  private showBlocked = true;
+  private showReferences = true;
+  private readyOnly = false;
+  private showCriticalPath = false;
+  private showProgress = true;
+  private progress = new Map<string, Progress>();
+  private liveUpdate = true;
+  private followEditor = false;
+  private focusNote = false;
+  // Last note and task line the editor was on, kept while the graph itself has focus
+  private activeFile: string | null = null;
+  private cursorTaskId: string | null = null;
+  private showWithoutTags = false;
+  private layout: LayoutMode = 'force';
+  private dagDirection: DagDirection = 'TB';
+  private timeline: TimelineGeometry | null = null;
+  private allTags = new Set<string>();
+  private selectedTags = new Set<string>();
+  private tagMode: TagMatchMode = 'any';
+  private tagsMenuVisible = false;
+  private colorBy: ColorEncoding = 'structure';
+  private sizeBy: SizeEncoding = 'depth';
+  private outlineBy: OutlineEncoding = 'structure';
+  private showLegend = true;
+  private encodingMenuVisible = false;
+  private groupBy: GroupMode = 'none';
+  private collapsedGroups = new Set<string>();
+  private clusters = new Map<string, Cluster>();
+  // Hull outlines from the last frame, in graph coordinates, for hit-testing
+  private hulls: { key: string; polygon: [number, number][] }[] = [];
+  private theme: ThemePalette = readTheme(document.body);
+  private encoder: Encoder;
+  private transform: d3.ZoomTransform | null = null;
+  private taskById = new Map<string, Task>();
+  private blocks = new Map<string, Task>();
+  // Saved pin key by task id; see `pinKeys`
+  private pinKeyById = new Map<string, string>();
+  private tooltip: HTMLElement | null = null;
+  private hoveredId: string | null = null;
+  private selectedId: string | null = null;
+  private highlighted: Set<string> | null = null;
+  private linkingFrom: Task | null = null;
+  private cycleIds = new Set<string>();
+  private cycles: string[][] = [];
+  private dangling: DanglingBlocker[] = [];
+  private duplicates: DuplicateId[] = [];
+  private selfBlocking: Task[] = [];
+  private criticalEdges = new Set<string>();
+  private criticalIds = new Set<string>();
+  private analysisEl: HTMLElement | null = null;
+  private diagnosticsEl: HTMLElement | null = null;
+  private diagnosticsVisible = false;
+  private searchQuery = '';
+  private searchResults: string[] = [];
+  private searchMatches: Set<string> | null = null;
+  private searchIndex = -1;
+  private searchCountEl: HTMLElement | null = null;
+  private resolveLoaded: () => void = () => {};
+  /** Resolves once the graph has its tasks and canvas. */
+  readonly loaded: Promise<void>;
+
+  constructor(private app: App, private plugin: TaskGraphPlugin, private containerEl: HTMLElement, private options: TaskGraphOptions = {}) {
+    super();
+    this.loaded = new Promise(resolve => this.resolveLoaded = resolve);
+    this.applyFilters(plugin.settings.filters);
+    this.updateEncoder();
+  }
+
+  getState(): TaskGraphState {
+    const { x, y, k } = this.canvas ? d3.zoomTransform(this.canvas.node()!) : this.transform ?? d3.zoomIdentity;
+    return {
+      filters: {
+        showCompleted: this.showCompleted,
+        showBlocked: this.showBlocked,
+        showReferences: this.showReferences,
+        readyOnly: this.readyOnly,
+        showCriticalPath: this.showCriticalPath,
+        showProgress: this.showProgress,
+        liveUpdate: this.liveUpdate,
+        followEditor: this.followEditor,
+        focusNote: this.focusNote,
+        layout: this.layout,
+        dagDirection: this.dagDirection,
+        showWithoutTags: this.showWithoutTags,
+        selectedTags: Array.from(this.selectedTags),
+        tagMode: this.tagMode,
+        colorBy: this.colorBy,
+        sizeBy: this.sizeBy,
+        outlineBy: this.outlineBy,
+        showLegend: this.showLegend,
+        groupBy: this.groupBy,
+        collapsedGroups: Array.from(this.collapsedGroups),
+      },
+      transform: { x, y, k },
+    };
+  }
+
+  setState(state: TaskGraphState) {
+    if (state?.filters) this.applyFilters(state.filters);
+    if (state?.transform) {
+      const { x, y, k } = state.transform;
+      this.transform = d3.zoomIdentity.translate(x, y).scale(k);
+    }
+    if (this.canvas) {
+      this.collectTasks();
+      this.renderGraph();
+    }
+  }
+
+  applyFilters(filters: Partial<ViewFilters>) {
+    this.showCompleted = filters.showCompleted ?? this.showCompleted;
+    this.showBlocked = filters.showBlocked ?? this.showBlocked;
+    this.showReferences = filters.showReferences ?? this.showReferences;
+    this.readyOnly = filters.readyOnly ?? this.readyOnly;
+    this.showCriticalPath = filters.showCriticalPath ?? this.showCriticalPath;
+    this.showProgress = filters.showProgress ?? this.showProgress;
+    this.liveUpdate = filters.liveUpdate ?? this.liveUpdate;
+    this.followEditor = filters.followEditor ?? this.followEditor;
+    this.focusNote = filters.focusNote ?? this.focusNote;
+    this.layout = filters.layout ?? this.layout;
+    this.dagDirection = filters.dagDirection ?? this.dagDirection;
+    this.showWithoutTags = filters.showWithoutTags ?? this.showWithoutTags;
+    this.tagMode = filters.tagMode ?? this.tagMode;
+    this.colorBy = filters.colorBy ?? this.colorBy;
+    this.sizeBy = filters.sizeBy ?? this.sizeBy;
+    this.outlineBy = filters.outlineBy ?? this.outlineBy;
+    this.showLegend = filters.showLegend ?? this.showLegend;
+    this.groupBy = filters.groupBy ?? this.groupBy;
+    if (filters.collapsedGroups) this.collapsedGroups = new Set(filters.collapsedGroups);
+    if (filters.selectedTags) this.selectedTags = new Set(filters.selectedTags);
+  }
+
+  async onload() {
+    this.plugin.graphs.add(this);
+    await this.plugin.index.ready;
+    // Unloaded while the index was still building
+    if (!this.plugin.graphs.has(this)) return;
+    const file = this.app.workspace.getActiveFile();
+    this.activeFile = file?.extension === 'md' ? file.path : null;
+    this.collectTasks();
+    this.renderGraph();
+    this.resolveLoaded();
+    this.registerEvent(this.plugin.index.on('changed', () => {
+      if (this.liveUpdate) this.refreshData();
+    }));
+    // There is no cursor event, but CodeMirror moves the document selection
+    const syncEditor = debounce(() => this.syncEditor(), 150, true);
+    this.registerEvent(this.app.workspace.on('active-leaf-change', syncEditor));
+    this.registerDomEvent(document, 'selectionchange', syncEditor);
+    this.registerEvent(this.app.workspace.on('css-change', () => {
+      this.theme = readTheme(document.body);
+      this.updateEncoder();
+      this.redraw();
+    }));
+    this.register(() => syncEditor.cancel());
+    const observer = new ResizeObserver(() => this.resize());
+    observer.observe(this.containerEl);
+    this.register(() => observer.disconnect());
+  }
+
+  onunload() {
+    this.plugin.graphs.delete(this);
+    this.simulation?.stop();
+    if (this.frame !== null) cancelAnimationFrame(this.frame);
+  }
+
+  refreshData() {
+    this.collectTasks();
+    this.updateHighlight();
+    this.updateGraph();
+    this.options.onStateChange?.();
+  }
+
+  private syncEditor() {
+    if (!this.followEditor && !this.focusNote) return;
+    const file = this.app.workspace.getActiveFile();
+    if (file?.extension === 'md' && file.path !== this.activeFile) {
+      this.activeFile = file.path;
+      if (this.focusNote) this.refreshData();
+    }
+    if (!this.followEditor) return;
+    const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+    if (!view?.file) return;
+    const line = view.editor.getCursor().line;
+    const task = this.plugin.index.getFileTasks(view.file.path).find(t => t.line === line);
+    if (!task || task.id === this.cursorTaskId) return;
+    this.cursorTaskId = task.id;
+    if (!this.nodeById.has(task.id)) return;
+    this.select(task.id);
+    this.focusNode(task.id, false);
+  }
+
+  private collectTasks() {
+    const tasks = this.plugin.index.getTasks();
+    this.allTags.clear();
+    tasks.forEach(t => t.tags.forEach(tag => this.allTags.add(tag)));
+    this.pinKeyById = pinKeys(tasks);
+    this.prunePins(tasks);
+    this.processTasks(tasks);
+  }
+
+  // Drop saved positions of tasks that no longer exist anywhere in the vault,
+  // and of groups that no open graph or the default group mode would form
+  private prunePins(tasks: Task[]) {
+    // The task list is empty or about to change
+    if (this.plugin.index.loading) return;
+    const pins = this.plugin.settings.pins;
+    const ids = new Set(this.pinKeyById.values());
+    const modes = new Set([this.plugin.settings.filters.groupBy, ...Array.from(this.plugin.graphs, g => g.groupBy)]);
+    modes.forEach(mode => tasks.forEach(t => {
+      const key = groupKey(t, mode);
+      if (key !== null) ids.add(summaryId(key));
+    }));
+    const stale = Object.keys(pins).filter(id => !ids.has(id));
+    if (!stale.length) return;
+    stale.forEach(id => delete pins[id]);
+    this.plugin.savePins();
+  }
+
+  pinNode(node: TaskNode) {
+    if (node.x === undefined || node.y === undefined) return;
+    node.fx = node.x;
+    node.fy = node.y;
+    this.plugin.settings.pins[this.pinKey(node.id)] = { x: node.x, y: node.y };
+    this.plugin.savePins();
+  }
+
+  unpinNode(node: TaskNode) {
+    node.fx = null;
+    node.fy = null;
+    delete this.plugin.settings.pins[this.pinKey(node.id)];
+    this.plugin.savePins();
+    this.simulation?.alpha(0.3).restart();
+  }
+
+  private pinKey(id: string) {
+    return this.pinKeyById.get(id) ?? id;
+  }
+
+  pinAll() {
+    this.data.nodes.forEach(n => this.pinNode(n));
+  }
+
+  unpinAll() {
+    this.data.nodes.forEach(n => this.unpinNode(n));
+  }
+
+  private processTasks(tasks: Task[]) {
+    const byId = taskById(tasks);
+    this.taskById = byId;
+    this.blocks = blockIndex(tasks);
+    this.progress = computeProgress(tasks, byId);
+    const scope = this.options.scope ?? this.plugin.settings.scope;
+    const rootedTasks = this.focusNote && this.activeFile
+      ? focusOnFile(tasks, this.activeFile, scope.rootTags, byId)
+      : selectScope(tasks, scope, byId);
+    const filteredTasks = filterTasks(rootedTasks, {
+      showCompleted: this.showCompleted,
+      showBlocked: this.showBlocked,
+      readyOnly: this.readyOnly,
+      selectedTags: this.selectedTags,
+      tagMode: this.tagMode,
+      showWithoutTags: this.showWithoutTags,
+    }, byId);
+
+    const pins = this.plugin.settings.pins;
+    const previous = new Map(this.data.nodes.map(n => [n.id, n] as [string, TaskNode]));
+    // Tasks of a group that was just expanded start out around its summary node
+    const spawn = (t: Task) => {
+      const key = groupKey(t, this.groupBy);
+      const summary = key === null ? undefined : previous.get(summaryId(key));
+      return summary?.x === undefined ? {} : {
+        x: summary.x + (Math.random() - 0.5) * 20,
+        y: summary.y! + (Math.random() - 0.5) * 20,
+      };
+    };
+    const expanded: TaskNode[] = filteredTasks.map(t => {
+      const pin = pins[this.pinKey(t.id)];
+      const prev = previous.get(t.id);
+      const start = prev ? {} : spawn(t);
+      return {
+        ...t,
+        x: pin?.x ?? prev?.x ?? start.x,
+        y: pin?.y ?? prev?.y ?? start.y,
+        fx: pin?.x ?? null,
+        fy: pin?.y ?? null,
+      };
+    });
+
+    this.clusters = buildClusters(filteredTasks, this.groupBy);
+    const { nodes, links } = collapseClusters(
+      expanded, buildLinks(filteredTasks, byId, this.showReferences), this.clusters, this.collapsedGroups, this.groupBy
+    );
+    nodes.forEach(n => {
+      if (!n.summary) return;
+      const pin = pins[n.id];
+      const prev = previous.get(n.id);
+      n.x = pin?.x ?? prev?.x ?? n.x;
+      n.y = pin?.y ?? prev?.y ?? n.y;
+      n.fx = pin?.x ?? null;
+      n.fy = pin?.y ?? null;
+    });
+
+    this.data = { nodes, links };
+    this.nodeById = new Map(nodes.map(n => [n.id, n] as [string, TaskNode]));
+    this.quadtree = null;
+    this.analyze(tasks, filteredTasks);
+    this.updateEncoder();
+    this.hulls = [];
+    this.updateSearch();
+  }
+
+  // Cycles, missing blockers and duplicate ids are vault-wide problems; the critical path follows what is shown
+  private analyze(tasks: Task[], visible: Task[]) {
+    this.cycles = findCycles(tasks);
+    this.cycleIds = new Set(([] as string[]).concat(...this.cycles));
+    this.dangling = findDanglingBlockers(tasks);
+    this.duplicates = findDuplicateIds(tasks);
+    this.selfBlocking = findSelfBlocking(tasks);
+    const path = analyzeDependencies(visible).criticalPath;
+    this.criticalIds = new Set(path.length > 1 ? path : []);
+    this.criticalEdges = new Set(path.slice(1).map((id, i) => `${path[i]}->${id}`));
+    this.updateDiagnostics();
+  }
+
+  // Folder and tag colors depend on the visible nodes, so this follows every refresh
+  private updateEncoder() {
+    const { nodeSize, colors } = this.plugin.settings;
+    this.encoder = createEncoder(this.data.nodes.filter(n => !n.summary), {
+      color: this.colorBy,
+      size: this.sizeBy,
+      outline: this.outlineBy,
+      nodeSize,
+      colors,
+      theme: this.theme,
+      byId: this.taskById,
+    });
+  }
+
+  // Toolbar warning plus the panel listing each problem with a link to its line
+  private updateDiagnostics() {
+    const el = this.analysisEl;
+    const panel = this.diagnosticsEl;
+    if (!el || !panel) return;
+    // A task blocking itself is also a one-task cycle; it is listed once
+    const cycles = this.cycles.filter(c => c.length > 1);
+    const count = (n: number, noun: string) => n ? `${n} ${noun}${n > 1 ? 's' : ''}` : '';
+    const parts = [
+      count(this.duplicates.length, 'duplicate id'),
+      count(this.selfBlocking.length, 'self-blocking task'),
+      count(cycles.length, 'cycle'),
+      count(this.dangling.length, 'missing blocker'),
+    ].filter(Boolean);
+    el.setText(parts.length ? `⚠️ ${parts.join(', ')}` : '');
+    el.style.display = parts.length ? '' : 'none';
+    if (!parts.length) this.diagnosticsVisible = false;
+    panel.style.display = this.diagnosticsVisible ? 'block' : 'none';
+
+    panel.empty();
+    panel.createEl('h4', { text: 'Diagnostics', cls: 'task-graph-tags-header' });
+    const section = (title: string) => {
+      panel.createDiv({ cls: 'task-graph-diagnostics-section', text: title });
+      return panel.createEl('ul', { cls: 'task-graph-diagnostics-list' });
+    };
+    const item = (list: HTMLElement, task: Task, text = task.text) => {
+      const li = list.createEl('li', { text });
+      li.createSpan({ cls: 'task-graph-diagnostics-file', text: ` ${task.file}:${task.line + 1}` });
+      li.addEventListener('click', () => openTask(this.app, task));
+    };
+    if (this.duplicates.length) {
+      const list = section('Duplicate ids');
+      this.duplicates.forEach(d => d.tasks.forEach(t => item(list, t, `🆔 ${d.id}: ${t.text}`)));
+    }
+    if (this.selfBlocking.length) {
+      const list = section('Blocks itself');
+      this.selfBlocking.forEach(t => item(list, t));
+    }
+    if (cycles.length) {
+      const list = section('Cycles');
+      cycles.forEach((c, i) => c.forEach(id => {
+        const task = this.taskById.get(id);
+        if (task) item(list, task, `${i + 1}. ${task.text}`);
+      }));
+    }
+    if (this.dangling.length) {
+      const list = section('Missing blockers');
+      this.dangling.forEach(d => item(list, d.task, `${d.task.text}: ⛔ ${d.blocker} not found`));
+    }
+  }
+
+  private openTaskInEditor(node: TaskNode, inNew = false) {
+    return openTask(this.app, node, inNew);
+  }
+
+
+  renderControls(container: HTMLElement) {
+    const ctr = container.createDiv('task-graph-controls');
+    Object.assign(ctr.style, {
+      position: 'absolute', top: '10px', left: '10px', zIndex: '10',
+      display: 'flex', gap: '10px', flexWrap: 'wrap',
+      backgroundColor: 'var(--background-primary)', padding: '8px',
+      borderRadius: '4px', boxShadow: '0 2px 8px rgba(0,0,0,0.15)'
+    });
+
+    const searchInp = ctr.createEl('input', { type: 'search', cls: 'task-graph-search', placeholder: 'Search tasks…' });
+    searchInp.value = this.searchQuery;
+    searchInp.title = 'Enter: next match, Shift+Enter: previous, Esc: clear';
+    this.searchCountEl = ctr.createSpan({ cls: 'task-graph-search-count' });
+    this.updateSearchCount();
+    searchInp.addEventListener('input', () => {
+      this.searchQuery = searchInp.value;
+      this.searchIndex = -1;
+      this.updateSearch();
+      this.redraw();
+    });
+    searchInp.addEventListener('keydown', e => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        this.stepSearch(e.shiftKey ? -1 : 1);
+      } else if (e.key === 'Escape') {
+        searchInp.value = this.searchQuery = '';
+        this.updateSearch();
+        this.redraw();
+      }
+    });
+
+    const mkToggle = (labelText: string, initial: boolean, onChange: (v: boolean) => void) => {
+      const lbl = ctr.createEl('label', { cls: 'task-graph-control-label', text: labelText });
+      const inp = lbl.createEl('input', { type: 'checkbox', cls: 'task-graph-control-toggle' });
+      inp.checked = initial;
+      inp.addEventListener('change', () => onChange(inp.checked));
+      return lbl;
+    };
+
+    mkToggle('Show completed:', this.showCompleted, v => { this.showCompleted = v; this.refreshData(); });
+    mkToggle('Show blocked:'  , this.showBlocked  , v => { this.showBlocked   = v; this.refreshData(); });
+    mkToggle('Ready only:'    , this.readyOnly    , v => { this.readyOnly     = v; this.refreshData(); });
+    mkToggle('References:'    , this.showReferences, v => { this.showReferences = v; this.refreshData(); });
+    mkToggle('Critical path:' , this.showCriticalPath, v => { this.showCriticalPath = v; this.redraw(); this.options.onStateChange?.(); });
+    mkToggle('Progress:'      , this.showProgress , v => { this.showProgress  = v; this.redraw(); this.options.onStateChange?.(); });
+    mkToggle('Live update:'   , this.liveUpdate   , v => { this.liveUpdate    = v; if (v) this.refreshData(); });
+    // Embedded graphs keep the scope of their block
+    if (!this.options.embedded) {
+      mkToggle('Follow editor:' , this.followEditor , v => { this.followEditor  = v; this.cursorTaskId = null; this.syncEditor(); this.options.onStateChange?.(); });
+      mkToggle('Current note:'  , this.focusNote    , v => { this.focusNote     = v; this.syncEditor(); this.refreshData(); });
+    }
+
+    const groupLbl = ctr.createEl('label', { cls: 'task-graph-control-label', text: 'Group:' });
+    const groupSel = groupLbl.createEl('select', { cls: 'dropdown' });
+    (Object.keys(GROUP_NAMES) as GroupMode[]).forEach(mode => groupSel.createEl('option', { value: mode, text: GROUP_NAMES[mode] }));
+    groupSel.value = this.groupBy;
+    groupSel.addEventListener('change', () => {
+      this.groupBy = groupSel.value as GroupMode;
+      this.collapsedGroups.clear();
+      this.relayout();
+    });
+
+    const layoutLbl = ctr.createEl('label', { cls: 'task-graph-control-label', text: 'Layout:' });
+    const layoutSel = layoutLbl.createEl('select', { cls: 'dropdown' });
+    (Object.keys(LAYOUT_NAMES) as LayoutMode[]).forEach(mode => layoutSel.createEl('option', { value: mode, text: LAYOUT_NAMES[mode] }));
+    layoutSel.value = this.layout;
+    const directionBtn = ctr.createEl('button', { cls: 'task-graph-control-button' });
+    const updateDirection = () => {
+      directionBtn.setText(this.dagDirection === 'TB' ? '↓ Top-down' : '→ Left-right');
+      directionBtn.style.display = this.layout === 'dag' ? '' : 'none';
+    };
+    updateDirection();
+    layoutSel.addEventListener('change', () => {
+      this.layout = layoutSel.value as LayoutMode;
+      updateDirection();
+      this.relayout();
+    });
+    directionBtn.addEventListener('click', () => {
+      this.dagDirection = this.dagDirection === 'TB' ? 'LR' : 'TB';
+      updateDirection();
+      this.relayout();
+    });
+
+    const updateBtn = ctr.createEl('button', { text: '🔄 Update', cls: 'task-graph-control-button' });
+    updateBtn.addEventListener('click', () => this.refreshData());
+    const fitBtn = ctr.createEl('button', { text: '🔍 Fit to view', cls: 'task-graph-control-button' });
+    fitBtn.addEventListener('click', () => this.fitToView());
+    const pinBtn = ctr.createEl('button', { text: '📌 Pin all', cls: 'task-graph-control-button' });
+    pinBtn.addEventListener('click', () => this.pinAll());
+    const unpinBtn = ctr.createEl('button', { text: 'Unpin all', cls: 'task-graph-control-button' });
+    unpinBtn.addEventListener('click', () => this.unpinAll());
+    const exportBtn = ctr.createEl('button', { text: '📤 Export', cls: 'task-graph-control-button' });
+    exportBtn.addEventListener('click', e => this.showExportMenu(e));
+
+    this.analysisEl = ctr.createSpan({ cls: 'task-graph-analysis' });
+    this.analysisEl.title = 'Show diagnostics';
+    this.analysisEl.addEventListener('click', () => {
+      this.diagnosticsVisible = !this.diagnosticsVisible;
+      this.diagnosticsEl!.style.display = this.diagnosticsVisible ? 'block' : 'none';
+    });
+    this.diagnosticsEl = container.createDiv('task-graph-tags-container');
+    Object.assign(this.diagnosticsEl.style, {
+      position: 'absolute', top: '50px', left: '50%', transform: 'translateX(-50%)', zIndex: '20', width: '360px',
+    });
+    this.updateDiagnostics();
+
+    const tagsBtn = ctr.createEl('button', { text: '🏷️ Tags', cls: 'task-graph-control-button' });
+    tagsBtn.addEventListener('click', () => {
+      this.tagsMenuVisible = !this.tagsMenuVisible;
+      tagsContainer.style.display = this.tagsMenuVisible ? 'block' : 'none';
+    });
+
+    const encodingBtn = ctr.createEl('button', { text: '🎨 Encoding', cls: 'task-graph-control-button' });
+    encodingBtn.addEventListener('click', () => {
+      this.encodingMenuVisible = !this.encodingMenuVisible;
+      encodingContainer.style.display = this.encodingMenuVisible ? 'block' : 'none';
+    });
+    const encodingContainer = container.createDiv('task-graph-tags-container');
+    Object.assign(encodingContainer.style, {
+      position: 'absolute', top: '50px', right: '10px', zIndex: '20',
+      display: this.encodingMenuVisible ? 'block' : 'none'
+    });
+    encodingContainer.createEl('h4', { text: 'Encoding', cls: 'task-graph-tags-header' });
+    const mkEncoding = <T extends string>(labelText: string, options: Record<T, string>, initial: T, onChange: (v: T) => void) => {
+      const lbl = encodingContainer.createEl('label', { cls: 'task-graph-encoding-label', text: labelText });
+      const sel = lbl.createEl('select', { cls: 'dropdown' });
+      (Object.keys(options) as T[]).forEach(key => sel.createEl('option', { value: key, text: options[key] }));
+      sel.value = initial;
+      sel.addEventListener('change', () => {
+        onChange(sel.value as T);
+        this.updateEncoder();
+        this.applyForces();
+        this.applyLayout(this.width, this.height);
+        this.simulation?.alpha(0.3).restart();
+        this.redraw();
+        this.options.onStateChange?.();
+      });
+    };
+    mkEncoding('Color', COLOR_ENCODINGS, this.colorBy, v => this.colorBy = v);
+    mkEncoding('Size', SIZE_ENCODINGS, this.sizeBy, v => this.sizeBy = v);
+    mkEncoding('Outline', OUTLINE_ENCODINGS, this.outlineBy, v => this.outlineBy = v);
+    const legendLbl = encodingContainer.createEl('label', { cls: 'task-graph-tags-label', text: 'show legend' });
+    const legendChk = legendLbl.createEl('input', { type: 'checkbox', cls: 'task-graph-tags-checkbox' });
+    legendChk.checked = this.showLegend;
+    legendChk.addEventListener('change', () => {
+      this.showLegend = legendChk.checked;
+      this.redraw();
+      this.options.onStateChange?.();
+    });
+
+    const tagsContainer = container.createDiv('task-graph-tags-container');
+    Object.assign(tagsContainer.style, {
+      position: 'absolute', top: '50px', left: '10px', zIndex: '20',
+      backgroundColor: 'var(--background-primary)', padding: '10px',
+      borderRadius: '4px', boxShadow: '0 4px 12px rgba(0,0,0,0.2)',
+      maxHeight: '300px', overflowY: 'auto',
+      display: this.tagsMenuVisible ? 'block' : 'none'
+    });
+    tagsContainer.createEl('h4', { text: 'Filter by Tags', cls: 'task-graph-tags-header' });
+
+    const noTagLbl = tagsContainer.createEl('label', { cls: 'task-graph-tags-label', text: 'without tags' });
+    Object.assign(noTagLbl.style, { display: 'flex', marginBottom: '8px' });
+    const noTagChk = noTagLbl.createEl('input', { type: 'checkbox', cls: 'task-graph-tags-checkbox' });
+    noTagChk.checked = this.showWithoutTags;
+    noTagChk.addEventListener('click', e => e.stopPropagation());
+    noTagChk.addEventListener('change', () => {
+      this.showWithoutTags = noTagChk.checked;
+      this.refreshData();
+      this.tagsMenuVisible = true;
+      tagsContainer.style.display = 'block';
+    });
+
+    const modeLbl = tagsContainer.createEl('label', { cls: 'task-graph-tags-label', text: 'match all selected' });
+    Object.assign(modeLbl.style, { display: 'flex', marginBottom: '8px' });
+    const modeChk = modeLbl.createEl('input', { type: 'checkbox', cls: 'task-graph-tags-checkbox' });
+    modeChk.checked = this.tagMode === 'all';
+    modeChk.addEventListener('click', e => e.stopPropagation());
+    modeChk.addEventListener('change', () => {
+      this.tagMode = modeChk.checked ? 'all' : 'any';
+      this.refreshData();
+    });
+
+    const clearBtn = tagsContainer.createEl('button', { text: 'Clear All', cls: 'task-graph-tags-clear' });
+    Object.assign(clearBtn.style, { width: '100%', marginBottom: '10px' });
+    clearBtn.addEventListener('click', () => {
+      this.selectedTags.clear();
+      this.showWithoutTags = false;
+      this.tagMode = 'any';
+      this.refreshData();
+      tagsContainer.querySelectorAll('input[type="checkbox"]').forEach((cb: HTMLInputElement) => cb.checked = false);
+    });
+
+    if (this.allTags.size) {
+      Array.from(this.allTags).sort().forEach(tag => {
+        const lbl = tagsContainer.createEl('label', { cls: 'task-graph-tags-label', text: tag });
+        lbl.style.display = 'block';
+        const cb = lbl.createEl('input', { type: 'checkbox', cls: 'task-graph-tags-checkbox' });
+        cb.checked = this.selectedTags.has(tag);
+        cb.addEventListener('click', e => e.stopPropagation());
+        cb.addEventListener('change', () => {
+          if (cb.checked) this.selectedTags.add(tag);
+          else            this.selectedTags.delete(tag);
+          this.refreshData();
+          this.tagsMenuVisible = true;
+          tagsContainer.style.display = 'block';
+        });
+      });
+    } else {
+      tagsContainer.createEl('p', { text: 'No tags found in tasks', cls: 'task-graph-tags-empty' });
+    }
+  }
+
+  renderGraph() {
+    this.simulation?.stop();
+    const c = this.containerEl;
+    c.empty();
+    c.style.position = 'relative';
+    c.style.overflow = 'hidden';
+    if (this.options.controls !== false) this.renderControls(c);
+
+    const w = this.width = c.clientWidth, h = this.height = c.clientHeight;
+    this.canvas = d3.select(c).append('canvas');
+    this.context = this.canvas.node()!.getContext('2d');
+    if (!this.context) return;
+    this.sizeCanvas();
+
+    this.zoom = d3.zoom<HTMLCanvasElement, unknown>()
+      .scaleExtent([0.1, 5])
+      .on('zoom', () => {
+        this.hideTooltip();
+        this.redraw();
+      })
+      .on('end', e => {
+        this.transform = e.transform;
+        this.options.onStateChange?.();
+      });
+    if (this.options.embedded) {
+      this.zoom.filter(e => (e.type !== 'wheel' || e.ctrlKey || e.metaKey) && !e.button);
+    }
+
+    this.simulation = d3.forceSimulation<TaskNode>(this.data.nodes)
+      .force('link', d3.forceLink<TaskNode, TaskLink>(this.validLinks()).id(d => d.id))
+      .force('charge', d3.forceManyBody<TaskNode>())
+      .force('collision', d3.forceCollide<TaskNode>());
+    this.applyForces();
+    this.applyLayout(w, h);
+
+    // Drag must be bound before zoom so it can claim presses on nodes
+    this.canvas.call(this.drag(this.simulation));
+    this.canvas.call(this.zoom);
+    if (this.transform) {
+      this.canvas.call(this.zoom.transform, this.transform);
+    }
+    this.canvas.on('dblclick.zoom', null);
+    this.setupMouse(c);
+
+    this.simulation.on('tick', () => {
+      this.quadtree = null;
+      this.redraw();
+    });
+  }
+
+  private sizeCanvas() {
+    const ratio = window.devicePixelRatio || 1;
+    this.canvas!
+      .attr('width', Math.round(this.width * ratio))
+      .attr('height', Math.round(this.height * ratio))
+      .style('width', `${this.width}px`)
+      .style('height', `${this.height}px`);
+  }
+
+  // Layouts stay where they are; only the canvas follows the container
+  private resize() {
+    const w = this.containerEl.clientWidth, h = this.containerEl.clientHeight;
+    if (!this.canvas || (w === this.width && h === this.height)) return;
+    this.width = w;
+    this.height = h;
+    this.sizeCanvas();
+    this.redraw();
+  }
+
+  /** Schedules a repaint on the next animation frame; repeated calls in between are merged. */
+  private redraw() {
+    if (this.frame !== null) return;
+    this.frame = requestAnimationFrame(() => {
+      this.frame = null;
+      this.paint();
+    });
+  }
+
+  private paint() {
+    if (!this.context || !this.canvas) return;
+    const ratio = window.devicePixelRatio || 1;
+    const transform = d3.zoomTransform(this.canvas.node()!);
+    this.context.save();
+    this.context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    this.context.clearRect(0, 0, this.width, this.height);
+    this.context.translate(transform.x, transform.y);
+    this.context.scale(transform.k, transform.k);
+    this.draw(transform);
+    this.context.restore();
+    if (this.showLegend) {
+      this.context.save();
+      this.context.setTransform(ratio, 0, 0, ratio, 0, 0);
+      this.drawLegend();
+      this.context.restore();
+    }
+  }
+
+  // Drawn in screen space, in the bottom-left corner
+  private drawLegend() {
+    const ctx = this.context!;
+    const sections = this.encoder.legend.filter(s => s.entries.length);
+    if (!sections.length) return;
+    const rowHeight = 16, pad = 8, swatch = 16;
+    ctx.font = '12px sans-serif';
+    const labels = ([] as string[]).concat(...sections.map(s => [s.title, ...s.entries.map(e => e.label)]));
+    const width = pad * 2 + swatch + Math.max(...labels.map(l => ctx.measureText(l).width));
+    const rows = labels.length;
+    const height = pad * 2 + rows * rowHeight;
+    const x = 10, y = this.height - height - 10;
+
+    ctx.globalAlpha = 0.9;
+    ctx.fillStyle = this.theme.background;
+    ctx.fillRect(x, y, width, height);
+    ctx.globalAlpha = 1;
+    ctx.strokeStyle = this.theme.border;
+    ctx.lineWidth = 1;
+    ctx.strokeRect(x + 0.5, y + 0.5, width, height);
+
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    let row = 0;
+    const rowY = () => y + pad + row * rowHeight + rowHeight / 2;
+    sections.forEach(section => {
+      ctx.fillStyle = this.theme.muted;
+      ctx.fillText(section.title, x + pad, rowY());
+      row++;
+      section.entries.forEach(entry => {
+        ctx.beginPath();
+        ctx.arc(x + pad + 5, rowY(), 5, 0, 2 * Math.PI);
+        ctx.fillStyle = entry.color;
+        ctx.fill();
+        ctx.fillStyle = this.theme.text;
+        ctx.fillText(entry.label, x + pad + swatch, rowY());
+        row++;
+      });
+    });
+  }
+
+  // Links whose ends are both shown; forceLink throws on unknown ids
+  private validLinks() {
+    return this.data.links.filter(l =>
+      this.nodeById.has(endpointId(l.source)) && this.nodeById.has(endpointId(l.target))
+    );
+  }
+
+  private setupMouse(container: HTMLElement) {
+    const canvas = this.canvas!;
+    this.tooltip = container.createDiv('task-graph-tooltip');
+    this.tooltip.style.display = 'none';
+
+    const nodeAt = (e: MouseEvent) => {
+      const [x, y] = d3.pointer(e, canvas.node());
+      return this.findNode(x, y);
+    };
+
+    canvas.on('click', (e: MouseEvent) => {
+      const node = nodeAt(e);
+      if (this.linkingFrom) {
+        if (node) this.finishAddBlocker(node);
+        else new Notice('Adding blocker cancelled');
+        this.linkingFrom = null;
+        return;
+      }
+      // The second click of a double-click would undo a group toggle
+      if (e.detail > 1) return;
+      if (node?.summary) {
+        this.toggleGroup(node.summary.key);
+        return;
+      }
+      const group = node ? null : this.groupAt(e);
+      if (group !== null) {
+        this.toggleGroup(group);
+        return;
+      }
+      this.select(node?.id ?? null);
+    });
+    canvas.on('contextmenu', (e: MouseEvent) => {
+      const node = nodeAt(e);
+      if (!node) return;
+      e.preventDefault();
+      this.showNodeMenu(node, e);
+    });
+    canvas.on('dblclick', (e: MouseEvent) => {
+      const node = nodeAt(e);
+      if (node && !node.summary) this.openTaskInEditor(node);
+    });
+    // Middle click opens the task in a new tab; block the browser's autoscroll
+    canvas.on('mousedown.middle', (e: MouseEvent) => {
+      if (e.button === 1) e.preventDefault();
+    });
+    canvas.on('auxclick', (e: MouseEvent) => {
+      const node = nodeAt(e);
+      if (e.button === 1 && node) this.openTaskInEditor(node, true);
+    });
+    canvas.on('mousemove', (e: MouseEvent) => {
+      const node = nodeAt(e);
+      canvas.style('cursor', node ? 'pointer' : 'default');
+      if (node?.id === this.hoveredId) {
+        if (node) this.moveTooltip(e);
+        return;
+      }
+      this.hoveredId = node?.id ?? null;
+      if (node) {
+        this.showTooltip(node);
+        this.moveTooltip(e);
+      } else {
+        this.hideTooltip();
+      }
+    });
+    canvas.on('mouseleave', () => this.hideTooltip());
+  }
+
+  private showNodeMenu(node: TaskNode, e: MouseEvent) {
+    const task = this.taskById.get(node.id);
+    if (!task) return;
+    const menu = new Menu();
+
+    // Only the editor creates the next occurrence of a recurring task
+    if (task.recurrence && !task.completed) {
+      menu.addItem(item => item
+        .setTitle('Mark as done in editor')
+        .setIcon('check')
+        .onClick(() => {
+          new Notice('Complete recurring tasks in the editor so the next occurrence is created');
+          this.openTaskInEditor(node);
+        }));
+    } else {
+      menu.addItem(item => item
+        .setTitle(task.completed ? 'Mark as not done' : 'Mark as done')
+        .setIcon('check')
+        .onClick(() => this.editTask(task, toggleDone)));
+    }
+    menu.addItem(item => item
+      .setTitle('Add blocker…')
+      .setIcon('link')
+      .onClick(() => {
+        this.linkingFrom = task;
+        new Notice('Click the task that blocks this one');
+      }));
+    task.blockers.forEach(id => {
+      const blocker = this.taskById.get(id);
+      menu.addItem(item => item
+        .setTitle(`Remove blocker: ${blocker?.text ?? id}`)
+        .setIcon('unlink')
+        .onClick(() => this.editTask(task, line => removeBlocker(line, id))));
+    });
+    if (task.generatedId) {
+      menu.addItem(item => item
+        .setTitle('Assign ID')
+        .setIcon('fingerprint')
+        .onClick(() => this.ensureId(task)));
+    }
+
+    menu.addSeparator();
+    const dateItem = (field: EditableDate, title: string) => menu.addItem(item => item
+      .setTitle(title)
+      .setIcon('calendar')
+      .onClick(() => new DateModal(this.app, title, task[field], date =>
+        this.editTask(task, line => setDate(line, field, date))
+      ).open()));
+    dateItem('scheduled', 'Set scheduled date…');
+    dateItem('start', 'Set start date…');
+
+    menu.addSeparator();
+    menu.addItem(item => item
+      .setTitle('Open in new tab')
+      .setIcon('file-plus')
+      .onClick(() => this.openTaskInEditor(node, true)));
+    menu.showAtMouseEvent(e);
+  }
+
+  private async finishAddBlocker(node: TaskNode) {
+    const blocked = this.linkingFrom;
+    const blocker = this.taskById.get(node.id);
+    if (!blocked || !blocker) return;
+    if (blocker.id === blocked.id) {
+      new Notice('A task cannot block itself');
+      return;
+    }
+    const id = await this.ensureId(blocker);
+    if (id) await this.editTask(blocked, line => addBlocker(line, id));
+  }
+
+  /** Returns the task's 🆔, writing a new one to its line first when it has none. */
+  private async ensureId(task: Task): Promise<string | null> {
+    let id = task.id;
+    const ok = await this.editTask(task, line => {
+      if (hasExplicitId(line, task)) return line;
+      id = generateId(new Set(this.taskById.keys()));
+      return setId(line, id);
+    });
+    return ok ? id : null;
+  }
+
+  /** Rewrites the task's line, refusing when the file no longer matches the graph. */
+  private async editTask(task: Task, edit: (line: string) => string): Promise<boolean> {
+    const file = this.app.vault.getAbstractFileByPath(task.file);
+    if (!(file instanceof TFile)) return false;
+    let matched = false;
+    await this.app.vault.process(file, data => {
+      const lines = data.split('\n');
+      const cr = lines[task.line]?.endsWith('\r') ? '\r' : '';
+      const line = lines[task.line]?.replace(/\r$/, '');
+      matched = lineMatches(line, task);
+      if (!matched) return data;
+      lines[task.line] = edit(line!) + cr;
+      return lines.join('\n');
+    });
+    if (!matched) {
+      new Notice('The task has changed since the graph was built. Refresh and try again.');
+    }
+    return matched;
+  }
+
+  private showTooltip(node: TaskNode) {
+    if (!this.tooltip) return;
+    const tip = this.tooltip;
+    tip.empty();
+    tip.createDiv({ cls: 'task-graph-tooltip-title', text: displayText(node) });
+    if (node.summary) {
+      tip.createDiv({ text: `${node.summary.done} of ${node.summary.total} tasks done` });
+      tip.createDiv({ cls: 'task-graph-tooltip-section', text: 'Click to expand' });
+      tip.style.display = 'block';
+      return;
+    }
+    tip.createDiv({ cls: 'task-graph-tooltip-file', text: `${node.file}:${node.line + 1}` });
+
+    const dates: [string, Date | null][] = [
+      ['Start', node.start], ['Scheduled', node.scheduled], ['Due', node.due], ['Done', node.done],
+    ];
+    dates.forEach(([label, date]) => {
+      if (date) tip.createDiv({ text: `${label}: ${formatDate(date)}` });
+    });
+    if (node.tags.length) tip.createDiv({ text: node.tags.join(' ') });
+    const progress = this.progress.get(node.id);
+    if (progress?.total) tip.createDiv({ text: `Progress: ${progressSummary(progress)}` });
+
+    if (this.cycleIds.has(node.id)) {
+      tip.createDiv({ cls: 'task-graph-tooltip-section', text: '⚠️ Part of a dependency cycle' });
+    }
+    if (node.blockers.length) {
+      tip.createDiv({ cls: 'task-graph-tooltip-section', text: 'Blocked by:' });
+      const list = tip.createEl('ul');
+      node.blockers.forEach(id => {
+        const blocker = this.taskById.get(id);
+        const text = blocker ? `${blocker.completed ? '✅' : '⛔'} ${blocker.text}` : `${id} (missing)`;
+        list.createEl('li', { text });
+      });
+    }
+    if (node.outlinks?.length) {
+      tip.createDiv({ cls: 'task-graph-tooltip-section', text: 'Links to:' });
+      const list = tip.createEl('ul');
+      node.outlinks.forEach(l => {
+        const target = linkedTask(l, this.blocks);
+        const text = target ? `🔗 ${target.text}`
+          : l.path ? `${l.embed ? '📎' : '📄'} ${l.link}`
+          : `${l.link} (missing)`;
+        list.createEl('li', { text });
+      });
+    }
+    tip.style.display = 'block';
+  }
+
+  private moveTooltip(e: MouseEvent) {
+    if (!this.tooltip) return;
+    const [x, y] = d3.pointer(e, this.tooltip.parentElement);
+    this.tooltip.style.left = `${x + 14}px`;
+    this.tooltip.style.top = `${y + 14}px`;
+  }
+
+  private hideTooltip() {
+    this.hoveredId = null;
+    if (this.tooltip) this.tooltip.style.display = 'none';
+  }
+
+  // Matches are looked up among visible nodes; the current match survives refreshes
+  private updateSearch() {
+    const current = this.searchResults[this.searchIndex];
+    this.searchResults = searchTasks(this.data.nodes, this.searchQuery).map(r => r.id);
+    this.searchMatches = this.searchQuery.trim() ? new Set(this.searchResults) : null;
+    this.searchIndex = current ? this.searchResults.indexOf(current) : -1;
+    this.updateSearchCount();
+  }
+
+  private updateSearchCount() {
+    const el = this.searchCountEl;
+    if (!el) return;
+    const total = this.searchResults.length;
+    el.setText(!this.searchMatches ? '' : !total ? 'No matches' : this.searchIndex >= 0 ? `${this.searchIndex + 1}/${total}` : `${total} found`);
+  }
+
+  private stepSearch(delta: number) {
+    const total = this.searchResults.length;
+    if (!total) return;
+    this.searchIndex = this.searchIndex < 0
+      ? (delta > 0 ? 0 : total - 1)
+      : (this.searchIndex + delta + total) % total;
+    this.updateSearchCount();
+    this.focusNode(this.searchResults[this.searchIndex]);
+    this.redraw();
+  }
+
+  /** Centers a node, zooming in unless `zoomIn` is false. */
+  focusNode(id: string, zoomIn = true) {
+    const node = this.nodeById.get(id);
+    if (!node || !this.canvas || node.x === undefined || node.y === undefined) return;
+    const w = this.width, h = this.height;
+    const current = d3.zoomTransform(this.canvas.node()!).k;
+    const k = zoomIn ? Math.max(current, 1.5) : current;
+    const transform = d3.zoomIdentity.translate(w / 2 - k * node.x, h / 2 - k * node.y).scale(k);
+    this.canvas.transition().duration(500).call(this.zoom!.transform, transform);
+  }
+
+  /** Selects and centers a task; false when it is not in this graph. */
+  revealTask(id: string): boolean {
+    if (!this.nodeById.has(id)) return false;
+    this.select(id);
+    this.focusNode(id);
+    return true;
+  }
+
+  // Faded by the selection or by an active search
+  private dimmed(id: string) {
+    return (!!this.highlighted && !this.highlighted.has(id)) || (!!this.searchMatches && !this.searchMatches.has(id));
+  }
+
+  private select(id: string | null) {
+    this.selectedId = id;
+    this.updateHighlight();
+    this.redraw();
+  }
+
+  // Selection highlights ancestors, descendants, blockers and dependents
+  private updateHighlight() {
+    const id = this.selectedId;
+    if (!id || !this.nodeById.has(id)) {
+      this.selectedId = null;
+      this.highlighted = null;
+      return;
+    }
+    const highlighted = new Set([id]);
+    const parents = new Map<string, string[]>();
+    const children = new Map<string, string[]>();
+    const blockers = new Map<string, string[]>();
+    const dependents = new Map<string, string[]>();
+    const add = (map: Map<string, string[]>, from: string, to: string) => {
+      if (!map.has(from)) map.set(from, []);
+      map.get(from)!.push(to);
+    };
+    this.data.links.forEach(l => {
+      const source = endpointId(l.source), target = endpointId(l.target);
+      if (l.type === 'hierarchy') {
+        add(parents, target, source);
+        add(children, source, target);
+      } else if (l.type === 'reference') {
+        // References are followed one step only
+        if (source === id) highlighted.add(target);
+        if (target === id) highlighted.add(source);
+      } else {
+        add(blockers, target, source);
+        add(dependents, source, target);
+      }
+    });
+
+    const walk = (map: Map<string, string[]>) => {
+      const seen = new Set([id]);
+      const queue = [id];
+      while (queue.length) {
+        map.get(queue.shift()!)?.forEach(next => {
+          if (seen.has(next)) return;
+          seen.add(next);
+          highlighted.add(next);
+          queue.push(next);
+        });
+      }
+    };
+    walk(parents);
+    walk(children);
+    walk(blockers);
+    walk(dependents);
+    this.highlighted = highlighted;
+  }
+
+  // Detail follows the on-screen node size: squares, circles, outlines, then labels
+  private draw(transform: d3.ZoomTransform) {
+    if (!this.context) return;
+    const ctx = this.context;
+    const k = transform.k;
+    const visibleWidth = this.width / k;
+    const visibleHeight = this.height / k;
+    const visibleX = -transform.x / k;
+    const visibleY = -transform.y / k;
+    const { orange: o, blue: b, red: r } = this.plugin.settings.colors;
+    const margin = this.maxRadius();
+    const inView = (d: TaskNode) =>
+      d.x! >= visibleX - margin && d.x! <= visibleX + visibleWidth + margin &&
+      d.y! >= visibleY - margin && d.y! <= visibleY + visibleHeight + margin;
+
+    if (this.timeline) {
+      this.drawTimeline(this.timeline, transform, visibleX, visibleY, visibleWidth);
+    }
+    if (this.groupBy !== 'none') this.drawHulls(k);
+
+    // Links and node fills are batched by style, so each batch is a single path
+    const links: Batches<{ color: string; width: number; dash: number[]; alpha: number }, TaskLink> = new Map();
+    // Dashes shorter than two pixels only cost time
+    const dashes = 5 * k >= 2;
+    this.data.links.forEach(d => {
+      const source = d.source as unknown as TaskNode;
+      const target = d.target as unknown as TaskNode;
+      if (!inView(source) && !inView(target)) return;
+      const critical = this.showCriticalPath && this.criticalEdges.has(`${source.id}->${target.id}`);
+      const cyclic = d.type === 'dependency' && this.cycleIds.has(source.id) && this.cycleIds.has(target.id);
+      const style = {
+        color: critical ? o : this.linkColor(d),
+        width: critical || cyclic ? 5 : d.type === 'reference' ? 1.5 : 2,
+        dash: !dashes ? [] : d.type === 'dependency' ? [5, 5] : d.type === 'reference' ? [2, 4] : [],
+        alpha: this.dimmed(source.id) || this.dimmed(target.id) ? 0.15 : 1,
+      };
+      addToBatch(links, `${style.color}|${style.width}|${style.dash}|${style.alpha}`, style, d);
+    });
+    links.forEach(({ style, items }) => {
+      ctx.globalAlpha = style.alpha;
+      ctx.strokeStyle = style.color;
+      ctx.lineWidth = style.width;
+      ctx.setLineDash(style.dash);
+      ctx.beginPath();
+      items.forEach(d => {
+        const source = d.source as unknown as TaskNode;
+        const target = d.target as unknown as TaskNode;
+        ctx.moveTo(source.x!, source.y!);
+        ctx.lineTo(target.x!, target.y!);
+      });
+      ctx.stroke();
+    });
+    ctx.setLineDash([]);
+
+    const nodes = this.data.nodes.filter(inView);
+    const fills: Batches<{ color: string; alpha: number }, TaskNode> = new Map();
+    nodes.forEach(d => {
+      const style = { color: this.nodeFill(d), alpha: this.dimmed(d.id) ? 0.15 : 1 };
+      addToBatch(fills, `${style.color}|${style.alpha}`, style, d);
+    });
+    fills.forEach(({ style, items }) => {
+      ctx.globalAlpha = style.alpha;
+      ctx.fillStyle = style.color;
+      ctx.beginPath();
+      items.forEach(d => {
+        const radius = this.nodeRadius(d);
+        if (radius * k < LOD.circle) {
+          ctx.rect(d.x! - radius, d.y! - radius, radius * 2, radius * 2);
+        } else {
+          ctx.moveTo(d.x! + radius, d.y!);
+          ctx.arc(d.x!, d.y!, radius, 0, 2 * Math.PI);
+        }
+      });
+      ctx.fill();
+    });
+
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    nodes.forEach(d => {
+      const radius = this.nodeRadius(d);
+      if (radius * k < LOD.outline) return;
+      ctx.globalAlpha = this.dimmed(d.id) ? 0.15 : 1;
+      // Selection, cycles and the critical path win over the chosen outline encoding
+      const critical = this.showCriticalPath && this.criticalIds.has(d.id);
+      const outline = d.id === this.selectedId ? { color: b, width: 4 }
+        : this.cycleIds.has(d.id) ? { color: r, width: 3 }
+        : critical ? { color: o, width: 3 }
+        : d.summary ? { color: this.theme.text, width: 2 }
+        : this.encoder.outline(d);
+      if (outline) {
+        ctx.beginPath();
+        ctx.arc(d.x!, d.y!, radius, 0, 2 * Math.PI);
+        ctx.strokeStyle = outline.color;
+        ctx.lineWidth = outline.width;
+        ctx.stroke();
+      }
+
+      // Share of leaf tasks done, clockwise from the top
+      const progress = this.showProgress ? this.progress.get(d.id) : undefined;
+      if (progress?.total) {
+        const ring = radius + 5;
+        ctx.lineWidth = 4;
+        ctx.beginPath();
+        ctx.arc(d.x!, d.y!, ring, 0, 2 * Math.PI);
+        ctx.strokeStyle = this.theme.border;
+        ctx.stroke();
+        if (progress.done) {
+          ctx.beginPath();
+          ctx.arc(d.x!, d.y!, ring, -Math.PI / 2, -Math.PI / 2 + 2 * Math.PI * progress.done / progress.total);
+          ctx.strokeStyle = this.theme.green;
+          ctx.stroke();
+        }
+      }
+
+      if (radius * k < LOD.label) return;
+      if (progress?.total) {
+        ctx.fillStyle = this.theme.muted;
+        ctx.font = '9px sans-serif';
+        ctx.fillText(progressSummary(progress), d.x!, d.y! + radius + 16);
+      }
+      ctx.fillStyle = this.theme.text;
+      ctx.font = `${d.depth === 0 ? 12 : 10}px sans-serif`;
+      const text = shortLabel(d);
+      if (d.summary) {
+        ctx.fillText(text, d.x!, d.y! - 6);
+        ctx.fillText(`${d.summary.done}/${d.summary.total}`, d.x!, d.y! + 10);
+      } else {
+        ctx.fillText(text, d.x!, d.y! + 5);
+      }
+    });
+
+    // The current search match gets a ring and its full text at any zoom
+    const focused = this.nodeById.get(this.searchResults[this.searchIndex]);
+    if (focused) {
+      const radius = this.nodeRadius(focused);
+      ctx.globalAlpha = 1;
+      ctx.beginPath();
+      ctx.arc(focused.x!, focused.y!, radius + 6 / transform.k, 0, 2 * Math.PI);
+      ctx.strokeStyle = b;
+      ctx.lineWidth = 3 / transform.k;
+      ctx.stroke();
+      ctx.fillStyle = this.theme.text;
+      ctx.font = `${13 / transform.k}px sans-serif`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'top';
+      ctx.fillText(displayText(focused), focused.x!, focused.y! + radius + 10 / transform.k);
+    }
+  }
+
+  private updateGraph() {
+    if (!this.simulation) {
+      this.renderGraph();
+      return;
+    }
+
+    this.simulation.nodes(this.data.nodes);
+    this.simulation.force<d3.ForceLink<TaskNode, TaskLink>>('link')!.links(this.validLinks());
+    this.applyForces();
+    this.applyLayout(this.width, this.height);
+    this.simulation.alpha(0.3).restart();
+  }
+
+  private nodeFill(d: TaskNode) {
+    return d.summary ? this.groupColor(d.summary.key) : this.encoder.fill(d);
+  }
+
+  // Groups take theme colors by size, largest first
+  private groupColor(key: string) {
+    const { blue, green, orange, purple, cyan, pink, yellow, red } = this.theme;
+    const palette = [blue, green, orange, purple, cyan, pink, yellow, red];
+    const index = Array.from(this.clusters.keys()).indexOf(key);
+    return index < 0 ? this.theme.muted : palette[index % palette.length];
+  }
+
+  private toggleGroup(key: string) {
+    if (this.collapsedGroups.has(key)) this.collapsedGroups.delete(key);
+    else this.collapsedGroups.add(key);
+    this.refreshData();
+  }
+
+  private groupAt(e: MouseEvent): string | null {
+    const [x, y] = d3.pointer(e, this.canvas!.node());
+    const [xt, yt] = d3.zoomTransform(this.canvas!.node()!).invert([x, y]);
+    return this.hulls.find(h => d3.polygonContains(h.polygon, [xt, yt]))?.key ?? null;
+  }
+
+  // Each expanded group is wrapped in the convex hull of circles around its members
+  private drawHulls(k: number) {
+    const ctx = this.context!;
+    const hulls: typeof this.hulls = [];
+    this.clusters.forEach(cluster => {
+      if (this.collapsedGroups.has(cluster.key)) return;
+      const points: [number, number][] = [];
+      cluster.members.forEach(id => {
+        const n = this.nodeById.get(id);
+        if (n?.x === undefined || n.y === undefined) return;
+        const r = this.nodeRadius(n) + 12;
+        for (let i = 0; i < 8; i++) {
+          const a = (i / 8) * 2 * Math.PI;
+          points.push([n.x + r * Math.cos(a), n.y + r * Math.sin(a)]);
+        }
+      });
+      const polygon = d3.polygonHull(points);
+      if (!polygon) return;
+      hulls.push({ key: cluster.key, polygon });
+
+      const color = this.groupColor(cluster.key);
+      ctx.beginPath();
+      polygon.forEach(([x, y], i) => i ? ctx.lineTo(x, y) : ctx.moveTo(x, y));
+      ctx.closePath();
+      ctx.globalAlpha = 0.08;
+      ctx.fillStyle = color;
+      ctx.fill();
+      ctx.globalAlpha = 0.5;
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 1.5 / k;
+      ctx.stroke();
+
+      const top = polygon.reduce((best, p) => p[1] < best[1] ? p : best);
+      ctx.globalAlpha = 1;
+      ctx.fillStyle = this.theme.muted;
+      ctx.font = `${12 / k}px sans-serif`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'bottom';
+      ctx.fillText(`${cluster.label} ${cluster.done}/${cluster.members.length}`, top[0], top[1] - 4 / k);
+    });
+    this.hulls = hulls;
+  }
+
+  private linkColor(d: TaskLink) {
+    const { red, blue, purple } = this.plugin.settings.colors;
+    return d.type === 'dependency' ? red : d.type === 'reference' ? purple : blue;
+  }
+
+  private showExportMenu(e: MouseEvent) {
+    const menu = new Menu();
+    const formats = Object.keys(EXPORT_FORMATS) as ExportFormat[];
+    formats.forEach(format => menu.addItem(item => item
+      .setTitle(`Copy as ${EXPORT_FORMATS[format].name}`)
+      .setIcon('copy')
+      .onClick(() => this.exportGraph(format, 'clipboard'))));
+    menu.addSeparator();
+    formats.forEach(format => menu.addItem(item => item
+      .setTitle(`Save as ${EXPORT_FORMATS[format].name}`)
+      .setIcon('save')
+      .onClick(() => this.exportGraph(format, 'file'))));
+    menu.showAtMouseEvent(e);
+  }
+
+  /** Exports the graph as currently filtered and laid out. */
+  async exportGraph(format: ExportFormat, target: 'file' | 'clipboard') {
+    const graph = this.data;
+    const style: ExportStyle = {
+      radius: d => this.nodeRadius(d),
+      fill: d => this.nodeFill(d),
+      linkColor: d => this.linkColor(d),
+      textColor: this.theme.text,
+      background: this.theme.background,
+    };
+    const { extension, name } = EXPORT_FORMATS[format];
+
+    if (format === 'png') {
+      const canvas = this.canvas?.node();
+      if (!canvas) return;
+      const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+      if (!blob) return;
+      if (target === 'clipboard') {
+        await navigator.clipboard.write([new ClipboardItem({ 'image/png': blob })]);
+        new Notice(`Task graph copied as ${name}`);
+      } else {
+        const path = await this.exportPath(extension);
+        await this.app.vault.createBinary(path, await blob.arrayBuffer());
+        new Notice(`Task graph saved to ${path}`);
+      }
+      return;
+    }
+
+    const direction = this.layout === 'dag' && this.dagDirection === 'LR' ? 'LR' : 'TD';
+    const text = format === 'mermaid' ? `\`\`\`mermaid\n${toMermaid(graph, direction)}\n\`\`\``
+      : format === 'dot' ? toDot(graph, style)
+      : format === 'json' ? toJson(graph)
+      : toSvg(graph, style);
+    if (target === 'clipboard') {
+      await navigator.clipboard.writeText(text);
+      new Notice(`Task graph copied as ${name}`);
+    } else {
+      const path = await this.exportPath(extension);
+      await this.app.vault.create(path, text);
+      new Notice(`Task graph saved to ${path}`);
+    }
+  }
+
+  private exportPath(extension: string) {
+    const stamp = window.moment().format('YYYY-MM-DD HHmmss');
+    return this.app.fileManager.getAvailablePathForAttachment(`Task graph ${stamp}.${extension}`);
+  }
+
+  private nodeRadius(d: TaskNode) {
+    return d.summary ? this.maxRadius() : this.encoder.radius(d);
+  }
+
+  private applyForces() {
+    if (!this.simulation) return;
+    const f = this.plugin.settings.forces;
+    this.simulation.force<d3.ForceLink<TaskNode, TaskLink>>('link')!
+      .distance(d => d.type === 'hierarchy' ? f.hierarchyDistance : f.dependencyDistance)
+      // References are loose associations, so they pull less than structure
+      .strength(d => d.type === 'reference' ? f.linkStrength / 2 : f.linkStrength);
+    this.simulation.force<d3.ForceManyBody<TaskNode>>('charge')!.strength(f.charge);
+    this.simulation.force<d3.ForceCollide<TaskNode>>('collision')!
+      .radius(d => this.nodeRadius(d) + 5)
+      .strength(f.collisionStrength);
+    // Other layouts place nodes by their own rules, so groups only pull in the free layout
+    const grouped = this.groupBy !== 'none' && this.layout === 'force';
+    this.simulation.force('cluster', grouped ? forceCluster(n => n.summary ? null : groupKey(n, this.groupBy)) : null);
+  }
+
+  // Nodes keep their positions, so the simulation animates the switch
+  private relayout() {
+    this.refreshData();
+    this.simulation?.alpha(1).restart();
+  }
+
+  private applyLayout(width: number, height: number) {
+    const sim = this.simulation;
+    if (!sim) return;
+    this.timeline = null;
+    if (this.layout === 'timeline') {
+      this.applyTimelineLayout(sim, width, height);
+    } else if (this.layout === 'dag') {
+      this.applyDagLayout(sim, width, height);
+    } else {
+      sim.force('x', null).force('y', null).force('center', d3.forceCenter(width / 2, height / 2));
+    }
+  }
+
+  // Layers follow hierarchy and ⛔ links; the other forces are muted so nodes settle on their slots
+  private applyDagLayout(sim: d3.Simulation<TaskNode, TaskLink>, width: number, height: number) {
+    const { baseRadius } = this.plugin.settings.nodeSize;
+    const positions = layeredLayout(
+      this.data.nodes.map(n => n.id),
+      this.data.links
+        .filter(l => l.type !== 'reference')
+        .map(l => ({ source: endpointId(l.source), target: endpointId(l.target) })),
+      { direction: this.dagDirection, nodeSpacing: baseRadius * 2 + 40, layerSpacing: baseRadius * 2 + 80 }
+    );
+    const origin = this.dagDirection === 'TB' ? { x: width / 2, y: 80 } : { x: 80, y: height / 2 };
+    sim.force('center', null)
+      .force('x', d3.forceX<TaskNode>(d => origin.x + (positions.get(d.id)?.x ?? 0)).strength(0.5))
+      .force('y', d3.forceY<TaskNode>(d => origin.y + (positions.get(d.id)?.y ?? 0)).strength(0.5));
+    sim.force<d3.ForceManyBody<TaskNode>>('charge')!.strength(0);
+    sim.force<d3.ForceLink<TaskNode, TaskLink>>('link')!.strength(0);
+  }
+
+  // Timeline places dated tasks above a date axis and undated ones in a lane below it
+  private applyTimelineLayout(sim: d3.Simulation<TaskNode, TaskLink>, width: number, height: number) {
+    const scale = timeScale(this.data.nodes, width);
+    const axisY = height * 0.7, laneY = height * 0.9;
+    this.timeline = { scale, axisY, laneY };
+    sim.force('center', null)
+      .force('x', d3.forceX<TaskNode>(d => {
+        const date = taskDate(d);
+        return date ? scale(date) : width / 2;
+      }).strength(d => taskDate(d) ? 1 : 0.02))
+      .force('y', d3.forceY<TaskNode>(d => taskDate(d) ? height * 0.4 : laneY).strength(d => taskDate(d) ? 0.05 : 0.3));
+  }
+
+  private drawTimeline({ scale, axisY, laneY }: TimelineGeometry, transform: d3.ZoomTransform, visibleX: number, visibleY: number, visibleWidth: number) {
+    const ctx = this.context!;
+    const k = transform.k;
+    const [x0, x1] = scale.range();
+    ctx.save();
+    ctx.globalAlpha = 1;
+    ctx.setLineDash([]);
+
+    // Undated lane
+    ctx.fillStyle = 'rgba(136, 136, 136, 0.1)';
+    ctx.fillRect(x0, laneY - 60, x1 - x0, 120);
+    ctx.fillStyle = this.theme.muted;
+    ctx.font = `${12 / k}px sans-serif`;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+    ctx.fillText('No date', Math.max(x0, visibleX) + 6 / k, laneY - 56);
+
+    // Axis with ticks for the visible date range
+    ctx.strokeStyle = this.theme.muted;
+    ctx.lineWidth = 1 / k;
+    ctx.beginPath();
+    ctx.moveTo(x0, axisY);
+    ctx.lineTo(x1, axisY);
+    const visible = scale.copy().domain([scale.invert(visibleX), scale.invert(visibleX + visibleWidth)]);
+    const ticks = visible.ticks(Math.max(2, Math.round(visibleWidth * k / 120)));
+    const format = visible.tickFormat();
+    ctx.textAlign = 'center';
+    ticks.forEach(t => {
+      const x = scale(t);
+      ctx.moveTo(x, axisY);
+      ctx.lineTo(x, axisY + 6 / k);
+      ctx.fillText(format(t), x, axisY + 8 / k);
+    });
+    ctx.stroke();
+
+    // Today
+    const today = scale(new Date());
+    ctx.strokeStyle = this.plugin.settings.colors.red;
+    ctx.fillStyle = this.plugin.settings.colors.red;
+    ctx.setLineDash([4 / k, 4 / k]);
+    ctx.beginPath();
+    ctx.moveTo(today, visibleY);
+    ctx.lineTo(today, axisY);
+    ctx.stroke();
+    ctx.textBaseline = 'bottom';
+    ctx.fillText('Today', today, axisY - 2 / k);
+    ctx.restore();
+  }
+
+  // The drag subject lives in screen space so pointer deltas need no rescaling
+  private drag(sim: d3.Simulation<TaskNode, TaskLink>) {
+    type DragEvent = d3.D3DragEvent<HTMLCanvasElement, unknown, DragSubject>;
+    let moved = false;
+    let wasPinned = false;
+
+    const started = (e: DragEvent) => {
+      const d = e.subject.node;
+      moved = false;
+      wasPinned = d.fx != null;
+      d.fx = d.x; d.fy = d.y;
+    };
+    const dragged = (e: DragEvent) => {
+      const d = e.subject.node;
+      const transform = d3.zoomTransform(this.canvas!.node()!);
+      if (!moved) {
+        moved = true;
+        this.hideTooltip();
+        sim.alphaTarget(0.3).restart();
+      }
+      d.fx = transform.invertX(e.x);
+      d.fy = transform.invertY(e.y);
+    };
+    const ended = (e: DragEvent) => {
+      const d = e.subject.node;
+      if (!moved) {
+        if (!wasPinned) { d.fx = null; d.fy = null; }
+        return;
+      }
+      sim.alphaTarget(0);
+      this.pinNode(d);
+    };
+
+    return d3.drag<HTMLCanvasElement, unknown, DragSubject>()
+      // Canvas coordinates, like the pointer hit-tests for clicks and hovers
+      .container(function () { return this; })
+      .subject(event => {
+        const node = this.findNode(event.x, event.y);
+        // d3 skips the gesture when there is no subject, leaving it to zoom
+        if (!node) return null as unknown as DragSubject;
+        const transform = d3.zoomTransform(this.canvas!.node()!);
+        return { node, x: transform.applyX(node.x!), y: transform.applyY(node.y!) };
+      })
+      .on('start', started)
+      .on('drag', dragged)
+      .on('end', ended);
+  }
+
+  private findNode(x: number, y: number): TaskNode | undefined {
+    const transform = d3.zoomTransform(this.canvas!.node()!);
+    const xt = transform.invertX(x);
+    const yt = transform.invertY(y);
+    // Rebuilt lazily after the simulation moves nodes
+    this.quadtree ??= d3.quadtree<TaskNode>().x(d => d.x!).y(d => d.y!)
+      .addAll(this.data.nodes.filter(d => d.x !== undefined && d.y !== undefined));
+    const reach = this.maxRadius();
+    let found: TaskNode | undefined;
+    let best = Infinity;
+    this.quadtree.visit((quad, x0, y0, x1, y1) => {
+      if (!quad.length) {
+        let leaf: d3.QuadtreeLeaf<TaskNode> | undefined = quad as d3.QuadtreeLeaf<TaskNode>;
+        for (; leaf; leaf = leaf.next) {
+          const node = leaf.data;
+          const distance = (xt - node.x!) ** 2 + (yt - node.y!) ** 2;
+          if (distance < this.nodeRadius(node) ** 2 && distance < best) {
+            best = distance;
+            found = node;
+          }
+        }
+      }
+      return x0 > xt + reach || x1 < xt - reach || y0 > yt + reach || y1 < yt - reach;
+    });
+    return found;
+  }
+
+  private maxRadius() {
+    const { baseRadius, minRadius } = this.plugin.settings.nodeSize;
+    return Math.max(baseRadius * MAX_SIZE_FACTOR, minRadius);
+  }
+
+  private fitToView() {
+    if (!this.canvas || !this.data.nodes.length) return;
+    const w = this.width, h = this.height;
+    const xs = this.data.nodes.map(d => d.x!).filter(x => !isNaN(x));
+    const ys = this.data.nodes.map(d => d.y!).filter(y => !isNaN(y));
+    if (!xs.length || !ys.length) return;
+    const minX = Math.min(...xs), maxX = Math.max(...xs);
+    const minY = Math.min(...ys), maxY = Math.max(...ys);
+    const graphW = maxX - minX, graphH = maxY - minY;
+    if (!graphW || !graphH) return;
+    const scale = 0.85 / Math.max(graphW / w, graphH / h);
+    const tx = w / 2 - scale * (minX + graphW / 2);
+    const ty = h / 2 - scale * (minY + graphH / 2);
+    const transform = d3.zoomIdentity.translate(tx, ty).scale(scale);
+    this.canvas.transition().duration(500).call(this.zoom!.transform, transform);
+  }
+}
@@ -0,0 +1,33 @@
+import { MarkdownRenderChild } from "obsidian";
+import type TaskGraphPlugin from "main";
+import TaskGraph from "TaskGraph";
+import { parseBlockOptions } from "blockOptions";
+
+/** Renders a `tasks-graph` code block as an embedded, live graph. */
+export default class TaskGraphBlock extends MarkdownRenderChild {
+  constructor(containerEl: HTMLElement, private plugin: TaskGraphPlugin, private source: string, private sourcePath: string) {
+    super(containerEl);
+  }
+
+  onload() {
+    const { options, errors } = parseBlockOptions(this.source, this.sourcePath);
+    if (errors.length) {
+      const list = this.containerEl.createEl('ul', { cls: 'task-graph-block-errors' });
+      errors.forEach(error => list.createEl('li', { text: error }));
+    }
+    const el = this.containerEl.createDiv({ cls: 'task-graph-block' });
+    el.style.height = `${options.height}px`;
+
+    const graph = new TaskGraph(this.plugin.app, this.plugin, el, {
+      scope: options.scope,
+      controls: options.controls,
+      embedded: true,
+    });
+    // Tag selection and editor tracking belong to the sidebar view; a block keeps its own scope
+    graph.applyFilters({ selectedTags: [], showWithoutTags: false, ...options.filters, focusNote: false, followEditor: false });
+
+    // The block is not attached to the document yet and has no size to lay out in
+    const frame = requestAnimationFrame(() => this.addChild(graph));
+    this.register(() => cancelAnimationFrame(frame));
+  }
+}
@@ -0,0 +1,285 @@
+import { App, PluginSettingTab, Setting } from "obsidian";
+import type TaskGraphPlugin from "main";
+import { normalizeTag, ScopeMode } from "scope";
+import { ColorName, COLORS } from "colors";
+import { ForceSettings, NodeSizeSettings, ViewFilters } from "settings";
+import { LAYOUT_NAMES, LayoutMode } from "layouts";
+import { GROUP_NAMES, GroupMode } from "clusters";
+import { TASK_SOURCE_NAMES, TaskSourceId } from "sources";
+import { COLOR_ENCODINGS, ColorEncoding, OUTLINE_ENCODINGS, OutlineEncoding, SIZE_ENCODINGS, SizeEncoding } from "encoding";
+
+export default class TaskGraphSettingTab extends PluginSettingTab {
+  constructor(app: App, private plugin: TaskGraphPlugin) {
+    super(app, plugin);
+  }
+
+  display() {
+    const { containerEl } = this;
+    containerEl.empty();
+    const scope = this.plugin.settings.scope;
+
+    new Setting(containerEl)
+      .setName('Task source')
+      .setDesc('Where tasks are read from. The Tasks and Dataview options need that plugin enabled, otherwise notes are read directly.')
+      .addDropdown(dd => dd
+        .addOptions(TASK_SOURCE_NAMES)
+        .setValue(this.plugin.settings.source)
+        .onChange(async v => {
+          this.plugin.settings.source = v as TaskSourceId;
+          await this.plugin.saveSettings();
+          await this.plugin.index.use(v as TaskSourceId);
+        }));
+
+    new Setting(containerEl).setName('Graph scope').setHeading();
+
+    new Setting(containerEl)
+      .setName('Root tasks')
+      .setDesc('Which tasks the graph is built around.')
+      .addDropdown(dd => dd
+        .addOptions({ all: 'All tasks', tags: 'Tasks with root tags', paths: 'Tasks in folders or files', query: 'Tasks matching a query' })
+        .setValue(scope.mode)
+        .onChange(async v => {
+          scope.mode = v as ScopeMode;
+          await this.plugin.saveSettings();
+          this.display();
+        }));
+
+    if (scope.mode === 'tags') {
+      new Setting(containerEl)
+        .setName('Root tags')
+        .setDesc('Comma-separated, e.g. #want, #project.')
+        .addText(text => text
+          .setValue(scope.rootTags.join(', '))
+          .onChange(async v => {
+            scope.rootTags = v.split(',').map(normalizeTag).filter(Boolean);
+            await this.plugin.saveSettings();
+          }));
+    }
+
+    if (scope.mode === 'paths') {
+      new Setting(containerEl)
+        .setName('Folders and files')
+        .setDesc('One vault path per line.')
+        .addTextArea(text => text
+          .setValue(scope.paths.join('\n'))
+          .onChange(async v => {
+            scope.paths = v.split('\n').map(p => p.trim()).filter(Boolean);
+            await this.plugin.saveSettings();
+          }));
+    }
+
+    if (scope.mode === 'query') {
+      new Setting(containerEl)
+        .setName('Query')
+        .setDesc('Terms: #tag, path:folder, is:open, is:done, is:blocked, priority:high, plain words. Prefix with - to exclude.')
+        .addText(text => text
+          .setValue(scope.query)
+          .onChange(async v => {
+            scope.query = v;
+            await this.plugin.saveSettings();
+          }));
+    }
+
+    if (scope.mode !== 'all') {
+      new Setting(containerEl)
+        .setName('Hops')
+        .setDesc('How many steps of related tasks to include around the roots.')
+        .addSlider(slider => slider
+          .setLimits(0, 5, 1)
+          .setValue(scope.hops)
+          .setDynamicTooltip()
+          .onChange(async v => {
+            scope.hops = v;
+            await this.plugin.saveSettings();
+          }));
+
+      const mkToggle = (name: string, desc: string, key: 'includeLinked' | 'includeBlocking' | 'includeChildren') =>
+        new Setting(containerEl).setName(name).setDesc(desc).addToggle(t => t
+          .setValue(scope[key])
+          .onChange(async v => {
+            scope[key] = v;
+            await this.plugin.saveSettings();
+          }));
+
+      mkToggle('Include linked tasks', 'Tasks connected by block reference links.', 'includeLinked');
+      mkToggle('Include blocking tasks', 'Tasks connected by ⛔ dependencies, in both directions.', 'includeBlocking');
+      mkToggle('Include subtasks', 'Child tasks of tasks in scope.', 'includeChildren');
+    }
+
+    this.displayFilters(containerEl);
+    this.displayColors(containerEl);
+    this.displayLayout(containerEl);
+  }
+
+  private displayFilters(containerEl: HTMLElement) {
+    const filters = this.plugin.settings.filters;
+    new Setting(containerEl)
+      .setName('Default filters')
+      .setDesc('Used by newly opened graph views. Each view keeps its own filters afterwards.')
+      .setHeading();
+
+    const mkToggle = (name: string, key: keyof Omit<ViewFilters, 'selectedTags' | 'tagMode' | 'layout' | 'dagDirection' | 'colorBy' | 'sizeBy' | 'outlineBy' | 'groupBy' | 'collapsedGroups'>) =>
+      new Setting(containerEl).setName(name).addToggle(t => t
+        .setValue(filters[key])
+        .onChange(async v => {
+          filters[key] = v;
+          await this.plugin.saveSettings();
+        }));
+
+    mkToggle('Show completed', 'showCompleted');
+    mkToggle('Show blocked', 'showBlocked');
+    mkToggle('Only ready tasks', 'readyOnly');
+    mkToggle('Highlight critical path', 'showCriticalPath');
+    mkToggle('Show progress of parent tasks', 'showProgress');
+    mkToggle('Live update', 'liveUpdate');
+    mkToggle('Follow the editor cursor', 'followEditor');
+    mkToggle('Focus on the current note', 'focusNote');
+    mkToggle('Show tasks without tags', 'showWithoutTags');
+    mkToggle('Show reference links', 'showReferences');
+    mkToggle('Show legend', 'showLegend');
+
+    new Setting(containerEl)
+      .setName('Selected tags')
+      .setDesc('Comma-separated tags to filter by. Leave empty to show all.')
+      .addText(text => text
+        .setValue(filters.selectedTags.join(', '))
+        .onChange(async v => {
+          filters.selectedTags = v.split(',').map(normalizeTag).filter(Boolean);
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Layout')
+      .addDropdown(dd => dd
+        .addOptions(LAYOUT_NAMES)
+        .setValue(filters.layout)
+        .onChange(async v => {
+          filters.layout = v as LayoutMode;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Hierarchy orientation')
+      .addDropdown(dd => dd
+        .addOptions({ TB: 'Top-down', LR: 'Left-right' })
+        .setValue(filters.dagDirection)
+        .onChange(async v => {
+          filters.dagDirection = v === 'LR' ? 'LR' : 'TB';
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Group tasks by')
+      .addDropdown(dd => dd
+        .addOptions(GROUP_NAMES)
+        .setValue(filters.groupBy)
+        .onChange(async v => {
+          filters.groupBy = v as GroupMode;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Tag matching')
+      .addDropdown(dd => dd
+        .addOptions({ any: 'Any selected tag', all: 'All selected tags' })
+        .setValue(filters.tagMode)
+        .onChange(async v => {
+          filters.tagMode = v === 'all' ? 'all' : 'any';
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Node color')
+      .addDropdown(dd => dd
+        .addOptions(COLOR_ENCODINGS)
+        .setValue(filters.colorBy)
+        .onChange(async v => {
+          filters.colorBy = v as ColorEncoding;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Node size')
+      .addDropdown(dd => dd
+        .addOptions(SIZE_ENCODINGS)
+        .setValue(filters.sizeBy)
+        .onChange(async v => {
+          filters.sizeBy = v as SizeEncoding;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Node outline')
+      .addDropdown(dd => dd
+        .addOptions(OUTLINE_ENCODINGS)
+        .setValue(filters.outlineBy)
+        .onChange(async v => {
+          filters.outlineBy = v as OutlineEncoding;
+          await this.plugin.saveSettings();
+        }));
+  }
+
+  private displayColors(containerEl: HTMLElement) {
+    const colors = this.plugin.settings.colors;
+    new Setting(containerEl)
+      .setName('Colors')
+      .setDesc('Used by links and by the structure encoding. Other encodings take their colors from the theme.')
+      .setHeading();
+
+    const names: Record<ColorName, string> = {
+      green: 'Root tasks',
+      darkGreen: 'Root task outline',
+      yellow: 'Tasks with subtasks',
+      cyan: 'Leaf tasks',
+      orange: 'Blocked tasks',
+      blue: 'Subtask links',
+      red: 'Dependency links',
+      purple: 'Reference links',
+    };
+    (Object.keys(names) as ColorName[]).forEach(key => {
+      new Setting(containerEl)
+        .setName(names[key])
+        .addColorPicker(cp => cp
+          .setValue(colors[key])
+          .onChange(async v => {
+            colors[key] = v;
+            await this.plugin.saveSettings();
+          }))
+        .addExtraButton(btn => btn
+          .setIcon('reset')
+          .setTooltip('Restore default')
+          .onClick(async () => {
+            colors[key] = COLORS[key];
+            await this.plugin.saveSettings();
+            this.display();
+          }));
+    });
+  }
+
+  private displayLayout(containerEl: HTMLElement) {
+    const { nodeSize, forces } = this.plugin.settings;
+
+    const mkSlider = <T extends NodeSizeSettings | ForceSettings>(
+      section: T, key: keyof T & string, name: string, min: number, max: number, step: number, desc = ''
+    ) => new Setting(containerEl).setName(name).setDesc(desc).addSlider(slider => slider
+      .setLimits(min, max, step)
+      .setValue(section[key] as number)
+      .setDynamicTooltip()
+      .onChange(async v => {
+        (section[key] as number) = v;
+        await this.plugin.saveSettings();
+      }));
+
+    new Setting(containerEl).setName('Node size').setHeading();
+    mkSlider(nodeSize, 'baseRadius', 'Root radius', 5, 60, 1);
+    mkSlider(nodeSize, 'depthStep', 'Shrink per level', 0, 10, 1, 'How much smaller each subtask level is drawn.');
+    mkSlider(nodeSize, 'minRadius', 'Minimum radius', 2, 30, 1);
+
+    new Setting(containerEl).setName('Forces').setHeading();
+    mkSlider(forces, 'linkStrength', 'Link strength', 0, 1, 0.05);
+    mkSlider(forces, 'hierarchyDistance', 'Subtask link distance', 10, 400, 10);
+    mkSlider(forces, 'dependencyDistance', 'Dependency link distance', 10, 400, 10);
+    mkSlider(forces, 'charge', 'Repulsion', -500, 0, 10, 'More negative values push nodes further apart.');
+    mkSlider(forces, 'collisionStrength', 'Collision strength', 0, 1, 0.05);
+  }
+}
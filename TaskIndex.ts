@@ -0,0 +1,156 @@
+import { App, CachedMetadata, Component, debounce, EventRef, Events, TAbstractFile, TFile, TFolder } from "obsidian";
+import { carryOverIds } from "identity";
+import { annotateTasks, TaskSource } from "sources";
+import { fallbackId, parseTasks } from "taskParser";
+import { Task } from "types";
+
+/**
+ * The built-in task source: an in-memory index of vault tasks keyed by file
+ * path. Only files touched by vault events are reparsed, and change
+ * notifications are debounced. Tasks without a 🆔 keep their ids across
+ * reparses and renames; see `carryOverIds`.
+ */
+export default class TaskIndex extends Component implements TaskSource {
+  private files = new Map<string, Task[]>();
+  private dirty = new Set<string>();
+  // Tasks of renamed files by their new path, until that path is reparsed
+  private moved = new Map<string, Task[]>();
+  // Generated ids that no longer match the task's position
+  private carried = new Set<string>();
+  private events = new Events();
+  private resolveReady: () => void = () => {};
+  private scheduleFlush = debounce(() => this.flush(), 500, true);
+  readonly ready: Promise<void>;
+
+  constructor(private app: App) {
+    super();
+    this.ready = new Promise(resolve => this.resolveReady = resolve);
+  }
+
+  onload() {
+    this.app.workspace.onLayoutReady(async () => {
+      await this.rebuild();
+      this.resolveReady();
+
+      this.registerEvent(this.app.metadataCache.on('changed', file => this.queue(file.path)));
+      this.registerEvent(this.app.vault.on('create', file => this.queue(file.path)));
+      this.registerEvent(this.app.vault.on('delete', file => this.remove(file)));
+      this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+        this.track(file, oldPath);
+        this.remove(file, oldPath);
+        this.queueTree(file);
+      }));
+    });
+  }
+
+  onunload() {
+    this.scheduleFlush.cancel();
+    this.files.clear();
+    this.dirty.clear();
+    this.moved.clear();
+    this.carried.clear();
+  }
+
+  on(name: 'changed', callback: () => unknown): EventRef {
+    return this.events.on(name, callback);
+  }
+
+  offref(ref: EventRef) {
+    this.events.offref(ref);
+  }
+
+  /** All indexed tasks, grouped by file in index order. */
+  getTasks(): Task[] {
+    return ([] as Task[]).concat(...Array.from(this.files.values()));
+  }
+
+  getFileTasks(path: string): Task[] {
+    return this.files.get(path) ?? [];
+  }
+
+  async rebuild() {
+    this.files.clear();
+    this.dirty.clear();
+    this.moved.clear();
+    this.carried.clear();
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      await this.indexFile(file);
+    }
+    this.events.trigger('changed');
+  }
+
+  private queue(path: string) {
+    if (!path.endsWith('.md')) return;
+    this.dirty.add(path);
+    this.scheduleFlush();
+  }
+
+  private queueTree(file: TAbstractFile) {
+    if (file instanceof TFolder) {
+      file.children.forEach(child => this.queueTree(child));
+    } else {
+      this.queue(file.path);
+    }
+  }
+
+  private track(file: TAbstractFile, oldPath: string) {
+    if (file instanceof TFolder) {
+      this.files.forEach((tasks, path) => {
+        if (path.startsWith(`${oldPath}/`)) this.moved.set(file.path + path.slice(oldPath.length), tasks);
+      });
+    } else {
+      const tasks = this.files.get(oldPath);
+      if (tasks) this.moved.set(file.path, tasks);
+    }
+  }
+
+  private remove(file: TAbstractFile, path = file.path) {
+    let changed = this.files.delete(path);
+    if (file instanceof TFolder) {
+      for (const key of Array.from(this.files.keys())) {
+        if (key.startsWith(`${path}/`)) changed = this.files.delete(key) || changed;
+      }
+    }
+    if (changed) this.scheduleFlush();
+  }
+
+  private async flush() {
+    const paths = Array.from(this.dirty);
+    this.dirty.clear();
+    for (const path of paths) {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (file instanceof TFile) {
+        await this.indexFile(file);
+      } else {
+        this.files.delete(path);
+      }
+    }
+    this.carried = new Set(this.getTasks()
+      .filter(t => t.generatedId && t.id !== fallbackId(t.file, t.line))
+      .map(t => t.id));
+    this.events.trigger('changed');
+  }
+
+  private async indexFile(file: TFile) {
+    const previous = this.files.get(file.path) ?? this.moved.get(file.path);
+    this.moved.delete(file.path);
+    const cache = this.app.metadataCache.getFileCache(file);
+    if (cache && !hasTasks(cache)) {
+      this.files.delete(file.path);
+      return;
+    }
+    const content = await this.app.vault.cachedRead(file);
+    const tasks = parseTasks(content, file.path);
+    if (!tasks.length) {
+      this.files.delete(file.path);
+      return;
+    }
+    annotateTasks(this.app, file, tasks);
+    carryOverIds(previous ?? [], tasks, id => this.carried.has(id));
+    this.files.set(file.path, tasks);
+  }
+}
+
+function hasTasks(cache: CachedMetadata) {
+  return !!cache.listItems?.some(item => item.task !== undefined);
+}
@@ -0,0 +1,102 @@
+import { App, Component, EventRef, Events, Notice } from "obsidian";
+import DataviewSource from "DataviewSource";
+import TaskIndex from "TaskIndex";
+import TasksPluginSource from "TasksPluginSource";
+import { sourceAvailable, TASK_SOURCE_NAMES, TaskSource, TaskSourceId } from "sources";
+import { Task } from "types";
+
+// How long a plugin's cache may take to load before notes are read instead
+const LOAD_TIMEOUT = 30 * 1000;
+
+function createSource(app: App, id: TaskSourceId): TaskSource & Component {
+  switch (id) {
+    case 'parser': return new TaskIndex(app);
+    case 'tasks': return new TasksPluginSource(app);
+    case 'dataview': return new DataviewSource(app);
+  }
+}
+
+/**
+ * The tasks everything in the plugin reads, taken from the chosen source.
+ * Its `changed` event outlives the source, so subscribers stay attached
+ * when the source is switched. A new source is only swapped in once it has
+ * loaded; until then the previous one keeps serving tasks. A plugin cache
+ * that does not load in time is replaced by the notes themselves.
+ */
+export default class TaskStore extends Component implements TaskSource {
+  private source: (TaskSource & Component) | null = null;
+  private sourceRef: EventRef | null = null;
+  private pending: { id: TaskSourceId; source: TaskSource & Component; cancel: () => void } | null = null;
+  private events = new Events();
+  private resolveReady: () => void = () => {};
+  readonly ready: Promise<void>;
+  sourceId: TaskSourceId = 'parser';
+
+  constructor(private app: App) {
+    super();
+    this.ready = new Promise(resolve => this.resolveReady = resolve);
+  }
+
+  /** Reads tasks from `id`, or from notes when its plugin is not enabled. */
+  async use(id: TaskSourceId): Promise<void> {
+    let next = id;
+    if (!sourceAvailable(this.app, id)) {
+      new Notice(`Tasks Graph: ${TASK_SOURCE_NAMES[id]} is not enabled, reading tasks from notes`);
+      next = 'parser';
+    }
+    if (this.pending?.id === next) return;
+    if (this.pending) {
+      this.pending.cancel();
+      this.removeChild(this.pending.source);
+      this.pending = null;
+    }
+    if (this.source && next === this.sourceId) return;
+
+    const source = this.addChild(createSource(this.app, next));
+    let cancel = () => {};
+    const cancelled = new Promise<boolean>(resolve => cancel = () => resolve(false));
+    this.pending = { id: next, source, cancel };
+    // Notes are always readable, so only other plugins' caches can time out
+    const timer = next === 'parser' ? undefined : window.setTimeout(cancel, LOAD_TIMEOUT);
+    const loaded = await Promise.race([source.ready.then(() => true), cancelled]);
+    window.clearTimeout(timer);
+    // Switched again while this one was loading
+    if (this.pending?.source !== source) return;
+    this.pending = null;
+    if (!loaded) {
+      this.removeChild(source);
+      new Notice(`Tasks Graph: ${TASK_SOURCE_NAMES[next]} did not load, reading tasks from notes`);
+      return this.use('parser');
+    }
+    if (this.source) {
+      this.source.offref(this.sourceRef!);
+      this.removeChild(this.source);
+    }
+    this.source = source;
+    this.sourceId = next;
+    this.sourceRef = source.on('changed', () => this.events.trigger('changed'));
+    this.resolveReady();
+    this.events.trigger('changed');
+  }
+
+  /** True before the first source has loaded and while switching to another. */
+  get loading(): boolean {
+    return !this.source || !!this.pending;
+  }
+
+  on(name: 'changed', callback: () => unknown): EventRef {
+    return this.events.on(name, callback);
+  }
+
+  offref(ref: EventRef) {
+    this.events.offref(ref);
+  }
+
+  getTasks(): Task[] {
+    return this.source?.getTasks() ?? [];
+  }
+
+  getFileTasks(path: string): Task[] {
+    return this.source?.getFileTasks(path) ?? [];
+  }
+}
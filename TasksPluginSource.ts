@@ -0,0 +1,35 @@
+import { Events } from "obsidian";
+import PluginTaskSource from "PluginTaskSource";
+
+// Only the parts of the Tasks plugin's task objects read here
+interface TasksPluginTask {
+  originalMarkdown: string;
+  taskLocation: { path: string; lineNumber: number };
+}
+
+interface CacheUpdate {
+  tasks: TasksPluginTask[];
+  state: string;
+}
+
+const CACHE_UPDATE = 'obsidian-tasks-plugin:cache-update';
+const REQUEST_CACHE_UPDATE = 'obsidian-tasks-plugin:request-cache-update';
+
+/** Tasks from the Tasks plugin cache, updated whenever that cache is. */
+export default class TasksPluginSource extends PluginTaskSource {
+  onload() {
+    const receive = (data: unknown) => {
+      const { tasks, state } = data as CacheUpdate;
+      // The cache is incomplete until it is warm
+      if (state !== 'Warm') return;
+      this.update(tasks.map(t => ({
+        path: t.taskLocation.path,
+        line: t.taskLocation.lineNumber,
+        markdown: t.originalMarkdown,
+      })));
+    };
+    const workspace: Events = this.app.workspace;
+    this.registerEvent(workspace.on(CACHE_UPDATE, receive));
+    workspace.trigger(REQUEST_CACHE_UPDATE, receive);
+  }
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { analyzeDependencies, findCycles, findDanglingBlockers, findDuplicateIds, findSelfBlocking } from "analysis";
+import { parseTasks } from "taskParser";
+
+const parse = (...lines: string[]) => parseTasks(lines.join('\n'), 'plan.md');
+
+describe('findCycles', () => {
+  it('finds blockers that wait on each other', () => {
+    const tasks = parse(
+      '- [ ] A 🆔 a ⛔ c',
+      '- [ ] B 🆔 b ⛔ a',
+      '- [ ] C 🆔 c ⛔ b',
+      '- [ ] D 🆔 d ⛔ c',
+    );
+    expect(findCycles(tasks)).toEqual([['a', 'b', 'c']]);
+  });
+
+  it('counts a task that blocks itself', () => {
+    const tasks = parse('- [ ] A 🆔 a ⛔ a', '- [ ] B 🆔 b');
+    expect(findCycles(tasks)).toEqual([['a']]);
+    expect(findSelfBlocking(tasks)).toEqual([tasks[0]]);
+  });
+});
+
+describe('findDanglingBlockers', () => {
+  it('reports blockers without a task', () => {
+    const tasks = parse('- [ ] A 🆔 a ⛔ b, missing', '- [ ] B 🆔 b');
+    expect(findDanglingBlockers(tasks)).toEqual([{ task: tasks[0], blocker: 'missing' }]);
+  });
+});
+
+describe('findDuplicateIds', () => {
+  it('reports declared ids used twice', () => {
+    const tasks = parse('- [ ] A 🆔 a', '- [ ] A again 🆔 a', '- [ ] Same', '- [ ] Same');
+    expect(findDuplicateIds(tasks)).toEqual([{ id: 'a', tasks: tasks.slice(0, 2) }]);
+  });
+});
+
+describe('analyzeDependencies', () => {
+  it('orders blockers first and follows open work for the critical path', () => {
+    const tasks = parse(
+      '- [ ] Ship 🆔 ship ⛔ test, docs',
+      '- [ ] Test 🆔 test ⛔ build',
+      '- [x] Build 🆔 build ⛔ design',
+      '- [ ] Design 🆔 design',
+      '- [ ] Docs 🆔 docs',
+    );
+    const { order, criticalPath, cycles, dangling } = analyzeDependencies(tasks);
+    expect(order).toEqual(['design', 'docs', 'build', 'test', 'ship']);
+    expect(criticalPath).toEqual(['design', 'build', 'test', 'ship']);
+    expect(cycles).toEqual([]);
+    expect(dangling).toEqual([]);
+  });
+
+  it('leaves tasks in cycles out of the order', () => {
+    const tasks = parse('- [ ] A 🆔 a ⛔ b', '- [ ] B 🆔 b ⛔ a', '- [ ] C 🆔 c ⛔ a');
+    const { order, criticalPath } = analyzeDependencies(tasks);
+    expect(order).toEqual(['c']);
+    expect(criticalPath).toEqual(['c']);
+  });
+});
@@ -0,0 +1,154 @@
+import { isDone } from "filters";
+import { Task } from "types";
+
+export interface DanglingBlocker {
+  task: Task;
+  blocker: string;
+}
+
+export interface DuplicateId {
+  id: string;
+  tasks: Task[];
+}
+
+export interface DependencyAnalysis {
+  /** Blockers before the tasks they block. Tasks in cycles are left out. */
+  order: string[];
+  cycles: string[][];
+  dangling: DanglingBlocker[];
+  /** Longest chain of open work along ⛔ edges, first blocker first. */
+  criticalPath: string[];
+}
+
+/** Edge list `blocker -> blocked` for blockers that resolve to a task. */
+function dependencyEdges(tasks: Task[], ids: Set<string>): Map<string, string[]> {
+  const edges = new Map<string, string[]>(tasks.map(t => [t.id, []] as [string, string[]]));
+  tasks.forEach(t => t.blockers.forEach(b => {
+    if (ids.has(b)) edges.get(b)!.push(t.id);
+  }));
+  return edges;
+}
+
+/** Strongly connected components with more than one task, or a task that blocks itself. */
+export function findCycles(tasks: Task[]): string[][] {
+  const ids = new Set(tasks.map(t => t.id));
+  const edges = dependencyEdges(tasks, ids);
+  const index = new Map<string, number>();
+  const low = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const cycles: string[][] = [];
+  let counter = 0;
+
+  // Iterative Tarjan, so long chains cannot overflow the call stack
+  ids.forEach(start => {
+    if (index.has(start)) return;
+    const work: { id: string; next: number }[] = [{ id: start, next: 0 }];
+    while (work.length) {
+      const frame = work[work.length - 1];
+      const { id } = frame;
+      if (frame.next === 0 && !index.has(id)) {
+        index.set(id, counter);
+        low.set(id, counter);
+        counter++;
+        stack.push(id);
+        onStack.add(id);
+      }
+      const out = edges.get(id)!;
+      if (frame.next < out.length) {
+        const to = out[frame.next++];
+        if (!index.has(to)) {
+          work.push({ id: to, next: 0 });
+        } else if (onStack.has(to)) {
+          low.set(id, Math.min(low.get(id)!, index.get(to)!));
+        }
+        continue;
+      }
+      work.pop();
+      if (work.length) {
+        const parent = work[work.length - 1].id;
+        low.set(parent, Math.min(low.get(parent)!, low.get(id)!));
+      }
+      if (low.get(id) !== index.get(id)) continue;
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+      if (component.length > 1 || out.includes(id)) cycles.push(component.reverse());
+    }
+  });
+  return cycles;
+}
+
+export function findDanglingBlockers(tasks: Task[]): DanglingBlocker[] {
+  const ids = new Set(tasks.map(t => t.id));
+  const dangling: DanglingBlocker[] = [];
+  tasks.forEach(task => task.blockers.forEach(blocker => {
+    if (!ids.has(blocker)) dangling.push({ task, blocker });
+  }));
+  return dangling;
+}
+
+/** Declared ids used by more than one task; only one of them gets the edges. */
+export function findDuplicateIds(tasks: Task[]): DuplicateId[] {
+  const byId = new Map<string, Task[]>();
+  tasks.forEach(t => {
+    if (!t.generatedId) byId.set(t.id, [...(byId.get(t.id) ?? []), t]);
+  });
+  return Array.from(byId, ([id, tasks]) => ({ id, tasks })).filter(d => d.tasks.length > 1);
+}
+
+export function findSelfBlocking(tasks: Task[]): Task[] {
+  return tasks.filter(t => t.blockers.includes(t.id));
+}
+
+export function analyzeDependencies(tasks: Task[]): DependencyAnalysis {
+  const byId = new Map(tasks.map(t => [t.id, t] as [string, Task]));
+  const cycles = findCycles(tasks);
+  const inCycle = new Set(([] as string[]).concat(...cycles));
+  const acyclic = tasks.filter(t => !inCycle.has(t.id));
+  const ids = new Set(acyclic.map(t => t.id));
+  const edges = dependencyEdges(acyclic, ids);
+
+  // Kahn's algorithm, keeping input order among ready tasks
+  const indegree = new Map<string, number>(acyclic.map(t => [t.id, 0] as [string, number]));
+  edges.forEach(out => out.forEach(to => indegree.set(to, indegree.get(to)! + 1)));
+  const queue = acyclic.filter(t => indegree.get(t.id) === 0).map(t => t.id);
+  const order: string[] = [];
+  while (queue.length) {
+    const id = queue.shift()!;
+    order.push(id);
+    edges.get(id)!.forEach(to => {
+      indegree.set(to, indegree.get(to)! - 1);
+      if (indegree.get(to) === 0) queue.push(to);
+    });
+  }
+
+  // Longest path where every open task costs one step
+  const length = new Map<string, number>();
+  const previous = new Map<string, string>();
+  order.forEach(id => {
+    const own = isDone(byId.get(id)!) ? 0 : 1;
+    length.set(id, Math.max(length.get(id) ?? 0, own));
+    edges.get(id)!.forEach(to => {
+      const candidate = length.get(id)! + (isDone(byId.get(to)!) ? 0 : 1);
+      if (candidate > (length.get(to) ?? 0)) {
+        length.set(to, candidate);
+        previous.set(to, id);
+      }
+    });
+  });
+  let end: string | null = null;
+  length.forEach((len, id) => {
+    if (len > 0 && (end === null || len > length.get(end)!)) end = id;
+  });
+  const criticalPath: string[] = [];
+  for (let id: string | undefined = end ?? undefined; id; id = previous.get(id)) {
+    criticalPath.unshift(id);
+  }
+
+  return { order, cycles, dangling: findDanglingBlockers(tasks), criticalPath };
+}
@@ -0,0 +1,106 @@
+import { EventRef } from "obsidian";
+import type TaskGraphPlugin from "main";
+import { buildLinks, isBlocked, taskById } from "filters";
+import { openTask } from "navigation";
+import { TaskSourceId } from "sources";
+import { Task, TaskLink } from "types";
+
+export interface TaskGraphData {
+  tasks: Task[];
+  links: TaskLink[];
+}
+
+/**
+ * Public API at `app.plugins.plugins['tasks-graph'].api`, for other plugins
+ * and scripts. Tasks are the plugin's own objects; treat them as read-only.
+ */
+export interface TaskGraphApi {
+  /** Resolves once tasks have been read for the first time. */
+  readonly ready: Promise<void>;
+  /** Where tasks are read from, after falling back when a plugin is missing. */
+  source(): TaskSourceId;
+  /** Every task, with subtask, ⛔ and reference links between them. */
+  getGraph(): TaskGraphData;
+  getTask(id: string): Task | null;
+  /** Tasks `id` waits on; with `deep`, their blockers too, and so on. */
+  getBlockers(id: string, deep?: boolean): Task[];
+  /** Tasks waiting on `id`; with `deep`, the tasks waiting on those too. */
+  getDependents(id: string, deep?: boolean): Task[];
+  /** True when the task has a blocker that is not done. */
+  isBlocked(id: string): boolean;
+  /** `changed` fires after tasks were reread. */
+  on(name: 'changed', callback: () => unknown): EventRef;
+  offref(ref: EventRef): void;
+  /** Opens the note at the task's line; false when there is no such task. */
+  openTask(id: string, inNew?: boolean): Promise<boolean>;
+  /** Opens the graph view centered on the task; false when the view does not show it. */
+  focusTask(id: string): Promise<boolean>;
+}
+
+// Breadth-first over `next`, without the start task and visiting each task once
+function walk(start: Task, next: (task: Task) => Task[], deep: boolean): Task[] {
+  const seen = new Set([start.id]);
+  const found: Task[] = [];
+  const queue = [start];
+  while (queue.length) {
+    next(queue.shift()!).forEach(t => {
+      if (seen.has(t.id)) return;
+      seen.add(t.id);
+      found.push(t);
+      if (deep) queue.push(t);
+    });
+  }
+  return found;
+}
+
+export function createApi(plugin: TaskGraphPlugin): TaskGraphApi {
+  const index = plugin.index;
+  const lookup = () => {
+    const tasks = index.getTasks();
+    return { tasks, byId: taskById(tasks) };
+  };
+
+  return {
+    ready: index.ready,
+    source: () => index.sourceId,
+    getGraph: () => {
+      const { tasks, byId } = lookup();
+      return { tasks, links: buildLinks(tasks, byId, true) };
+    },
+    getTask: id => index.getTasks().find(t => t.id === id) ?? null,
+    getBlockers: (id, deep = false) => {
+      const { byId } = lookup();
+      const task = byId.get(id);
+      if (!task) return [];
+      return walk(task, t => t.blockers.map(b => byId.get(b)).filter((b): b is Task => !!b), deep);
+    },
+    getDependents: (id, deep = false) => {
+      const { tasks, byId } = lookup();
+      const task = byId.get(id);
+      if (!task) return [];
+      const dependents = new Map<string, Task[]>();
+      tasks.forEach(t => t.blockers.forEach(b => dependents.set(b, [...(dependents.get(b) ?? []), t])));
+      return walk(task, t => dependents.get(t.id) ?? [], deep);
+    },
+    isBlocked: id => {
+      const { byId } = lookup();
+      const task = byId.get(id);
+      return !!task && isBlocked(task, byId);
+    },
+    on: (name, callback) => index.on(name, callback),
+    offref: ref => index.offref(ref),
+    openTask: async (id, inNew = false) => {
+      const task = index.getTasks().find(t => t.id === id);
+      if (!task) return false;
+      await openTask(plugin.app, task, inNew);
+      return true;
+    },
+    focusTask: async id => {
+      await plugin.activateView();
+      const view = plugin.graphViews()[0];
+      if (!view) return false;
+      await view.graph.loaded;
+      return view.graph.revealTask(id);
+    },
+  };
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { parseBlockOptions } from "blockOptions";
+
+const parse = (...lines: string[]) => parseBlockOptions(lines.join('\n'), 'Projects/plan.md');
+
+describe('parseBlockOptions', () => {
+  it('shows the note holding the block by default', () => {
+    const { options, errors } = parse('');
+    expect(errors).toEqual([]);
+    expect(options.scope).toMatchObject({ mode: 'paths', paths: ['Projects/plan.md'], rootTags: [] });
+    expect(options).toMatchObject({ filters: {}, height: 400, controls: false });
+  });
+
+  it('reads scope keys', () => {
+    expect(parse('tags: want, #Work').options.scope).toMatchObject({ mode: 'tags', rootTags: ['#want', '#work'] });
+    expect(parse('folders: Projects, Areas').options.scope).toMatchObject({ mode: 'paths', paths: ['Projects', 'Areas'] });
+    expect(parse('query: path:Projects').options.scope).toMatchObject({ mode: 'query', query: 'path:Projects' });
+    expect(parse('hops: 2', 'include: blocking, children').options.scope).toMatchObject({
+      hops: 2, includeLinked: false, includeBlocking: true, includeChildren: true,
+    });
+  });
+
+  it('reads filters by key or display name', () => {
+    const { options, errors } = parse(
+      'completed: no',
+      'ready: yes',
+      'layout: Hierarchy',
+      'direction: lr',
+      'color: due urgency',
+      'group: folder',
+      'legend: off',
+      'height: 250',
+      'controls: true',
+    );
+    expect(errors).toEqual([]);
+    expect(options.filters).toEqual({
+      showCompleted: false, readyOnly: true, layout: 'dag', dagDirection: 'LR',
+      colorBy: 'due', groupBy: 'folder', showLegend: false,
+    });
+    expect(options.height).toBe(250);
+    expect(options.controls).toBe(true);
+  });
+
+  it('skips comments and reports bad lines', () => {
+    const { options, errors } = parse(
+      '// a comment',
+      'tags: want',
+      'folders: Projects',
+      'height: 50',
+      'layout: spiral',
+      'colour: priority',
+      'completed',
+    );
+    expect(errors).toEqual([
+      'Invalid value for height: "50"',
+      'Invalid value for layout: "spiral"',
+      'Unknown option "colour"',
+      'Expected "key: value" in "completed"',
+      'Use only one of tags, folders and query',
+    ]);
+    expect(options.height).toBe(400);
+    expect(options.scope.mode).toBe('paths');
+  });
+});
@@ -0,0 +1,163 @@
+import { GROUP_NAMES } from "clusters";
+import { COLOR_ENCODINGS, OUTLINE_ENCODINGS, SIZE_ENCODINGS } from "encoding";
+import { DagDirection, LayoutMode, LAYOUT_NAMES } from "layouts";
+import { DEFAULT_SCOPE, GraphScope, normalizeTag, ScopeMode } from "scope";
+import { ViewFilters } from "settings";
+
+/** Settings for one `tasks-graph` code block. */
+export interface BlockOptions {
+  scope: GraphScope;
+  filters: Partial<ViewFilters>;
+  height: number;
+  controls: boolean;
+}
+
+const list = (value: string) => value.split(',').map(s => s.trim()).filter(Boolean);
+
+function flag(value: string): boolean | undefined {
+  const v = value.toLowerCase();
+  if (['true', 'yes', 'on', '1'].includes(v)) return true;
+  if (['false', 'no', 'off', '0'].includes(v)) return false;
+  return undefined;
+}
+
+// Accepts either the key or the display name of an option
+function choice<T extends string>(names: Record<T, string>, value: string): T | undefined {
+  const v = value.toLowerCase();
+  return (Object.keys(names) as T[]).find(key => key.toLowerCase() === v || names[key].toLowerCase() === v);
+}
+
+/**
+ * Parses `key: value` lines from a code block body. Supported keys: `tags`,
+ * `folders`, `query`, `hops`, `include` (`linked`, `blocking`, `children`),
+ * `completed`, `blocked`, `ready`, `references`, `progress`, `layout`,
+ * `direction`, `color`, `size`, `outline`, `legend`, `group`, `height` and
+ * `controls`. Without tags, folders or a query the graph shows the tasks of
+ * `sourcePath`, the note holding the block. Unknown keys and values are
+ * reported in `errors` and otherwise ignored.
+ */
+export function parseBlockOptions(source: string, sourcePath: string): { options: BlockOptions; errors: string[] } {
+  const scope: GraphScope = { ...DEFAULT_SCOPE, mode: 'paths', paths: [sourcePath], rootTags: [] };
+  const options: BlockOptions = { scope, filters: {}, height: 400, controls: false };
+  const errors: string[] = [];
+  const modes: ScopeMode[] = [];
+
+  source.split('\n').forEach(raw => {
+    const line = raw.trim();
+    if (!line || line.startsWith('//')) return;
+    const colon = line.indexOf(':');
+    if (colon < 0) {
+      errors.push(`Expected "key: value" in "${line}"`);
+      return;
+    }
+    const key = line.slice(0, colon).trim().toLowerCase();
+    const value = line.slice(colon + 1).trim();
+    const bool = flag(value);
+    const invalid = () => errors.push(`Invalid value for ${key}: "${value}"`);
+
+    switch (key) {
+      case 'tags':
+        scope.rootTags = list(value).map(normalizeTag);
+        modes.push('tags');
+        break;
+      case 'folders':
+      case 'paths':
+        scope.paths = list(value);
+        modes.push('paths');
+        break;
+      case 'query':
+        scope.query = value;
+        modes.push('query');
+        break;
+      case 'hops': {
+        const hops = parseInt(value, 10);
+        if (isNaN(hops) || hops < 0) invalid();
+        else scope.hops = hops;
+        break;
+      }
+      case 'include': {
+        const relations = list(value.toLowerCase());
+        scope.includeLinked = relations.includes('linked');
+        scope.includeBlocking = relations.includes('blocking');
+        scope.includeChildren = relations.includes('children');
+        break;
+      }
+      case 'completed':
+        if (bool === undefined) invalid();
+        else options.filters.showCompleted = bool;
+        break;
+      case 'blocked':
+        if (bool === undefined) invalid();
+        else options.filters.showBlocked = bool;
+        break;
+      case 'references':
+        if (bool === undefined) invalid();
+        else options.filters.showReferences = bool;
+        break;
+      case 'progress':
+        if (bool === undefined) invalid();
+        else options.filters.showProgress = bool;
+        break;
+      case 'ready':
+        if (bool === undefined) invalid();
+        else options.filters.readyOnly = bool;
+        break;
+      case 'layout': {
+        const layout = choice<LayoutMode>(LAYOUT_NAMES, value);
+        if (!layout) invalid();
+        else options.filters.layout = layout;
+        break;
+      }
+      case 'direction': {
+        const direction = value.toUpperCase();
+        if (direction !== 'TB' && direction !== 'LR') invalid();
+        else options.filters.dagDirection = direction as DagDirection;
+        break;
+      }
+      case 'color': {
+        const color = choice(COLOR_ENCODINGS, value);
+        if (!color) invalid();
+        else options.filters.colorBy = color;
+        break;
+      }
+      case 'size': {
+        const size = choice(SIZE_ENCODINGS, value);
+        if (!size) invalid();
+        else options.filters.sizeBy = size;
+        break;
+      }
+      case 'outline': {
+        const outline = choice(OUTLINE_ENCODINGS, value);
+        if (!outline) invalid();
+        else options.filters.outlineBy = outline;
+        break;
+      }
+      case 'legend':
+        if (bool === undefined) invalid();
+        else options.filters.showLegend = bool;
+        break;
+      case 'group': {
+        const group = choice(GROUP_NAMES, value);
+        if (!group) invalid();
+        else options.filters.groupBy = group;
+        break;
+      }
+      case 'height': {
+        const height = parseInt(value, 10);
+        if (isNaN(height) || height < 100) invalid();
+        else options.height = height;
+        break;
+      }
+      case 'controls':
+        if (bool === undefined) invalid();
+        else options.controls = bool;
+        break;
+      default:
+        errors.push(`Unknown option "${key}"`);
+    }
+  });
+
+  if (modes.length > 1) errors.push('Use only one of tags, folders and query');
+  if (modes.length) scope.mode = modes[modes.length - 1];
+  return { options, errors };
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { buildClusters, collapseClusters, groupKey, summaryId } from "clusters";
+import { buildLinks, taskById } from "filters";
+import { parseTasks } from "taskParser";
+import { TaskNode } from "types";
+
+const tasks = [
+  ...parseTasks([
+    '- [ ] Launch 🆔 launch ⛔ copy, design #web',
+    '  - [x] Pick hosting',
+    '- [x] Copy 🆔 copy',
+    '- [ ] Review 🆔 review',
+  ].join('\n'), 'Projects/web.md'),
+  ...parseTasks('- [ ] Design 🆔 design ⛔ copy, review', 'Projects/design.md'),
+];
+const nodes: TaskNode[] = tasks.map((t, i) => ({ ...t, x: i * 10, y: 100 }));
+const links = buildLinks(tasks, taskById(tasks));
+const clusters = buildClusters(tasks, 'file');
+const web = summaryId('Projects/web.md');
+
+describe('groups', () => {
+  it('keys tasks by note, folder or first tag', () => {
+    expect(groupKey(tasks[0], 'file')).toBe('Projects/web.md');
+    expect(groupKey(tasks[0], 'folder')).toBe('Projects');
+    expect(groupKey(tasks[0], 'tag')).toBe('#web');
+    expect(groupKey(tasks[1], 'tag')).toBeNull();
+    expect(groupKey(tasks[0], 'none')).toBeNull();
+  });
+
+  it('counts done members', () => {
+    expect(clusters.get('Projects/web.md')).toEqual({
+      key: 'Projects/web.md', label: 'web', members: tasks.slice(0, 4).map(t => t.id), done: 2,
+    });
+  });
+});
+
+describe('collapseClusters', () => {
+  it('leaves the graph alone when nothing is collapsed', () => {
+    expect(collapseClusters(nodes, links, clusters, new Set(), 'file')).toEqual({ nodes, links });
+  });
+
+  it('replaces members with a summary node at their centre', () => {
+    const collapsed = collapseClusters(nodes, links, clusters, new Set(['Projects/web.md']), 'file');
+    expect(collapsed.nodes.map(n => n.id)).toEqual(['design', web]);
+    expect(collapsed.nodes[1]).toMatchObject({
+      text: 'web', completed: false, x: 15, y: 100, summary: { key: 'Projects/web.md', done: 2, total: 4 },
+    });
+  });
+
+  it('redirects links to the summary and drops duplicate and inner ones', () => {
+    const collapsed = collapseClusters(nodes, links, clusters, new Set(['Projects/web.md']), 'file');
+    expect(collapsed.links).toEqual([
+      { source: 'design', target: web, type: 'dependency' },
+      { source: web, target: 'design', type: 'dependency' },
+    ]);
+  });
+});
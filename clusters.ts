@@ -0,0 +1,141 @@
+import { endpointId, isDone } from "filters";
+import { Task, TaskLink, TaskNode } from "types";
+
+export type GroupMode = 'none' | 'file' | 'folder' | 'tag';
+
+export const GROUP_NAMES: Record<GroupMode, string> = {
+  none: 'No groups',
+  file: 'Note',
+  folder: 'Folder',
+  tag: 'First tag',
+};
+
+export interface Cluster {
+  key: string;
+  label: string;
+  members: string[];
+  done: number;
+}
+
+const SUMMARY_PREFIX = 'group:';
+
+export const summaryId = (key: string) => `${SUMMARY_PREFIX}${key}`;
+
+/** Group of a task, or null for tasks left out of every group. */
+export function groupKey(task: Task, mode: GroupMode): string | null {
+  switch (mode) {
+    case 'none': return null;
+    case 'file': return task.file;
+    case 'folder': {
+      const i = task.file.lastIndexOf('/');
+      return i >= 0 ? task.file.slice(0, i) : '/';
+    }
+    case 'tag': return task.tags[0] ?? null;
+  }
+}
+
+const groupLabel = (key: string, mode: GroupMode) =>
+  mode === 'file' ? key.replace(/^.*\//, '').replace(/\.md$/, '') : key;
+
+export function buildClusters(tasks: Task[], mode: GroupMode): Map<string, Cluster> {
+  const clusters = new Map<string, Cluster>();
+  tasks.forEach(t => {
+    const key = groupKey(t, mode);
+    if (key === null) return;
+    let cluster = clusters.get(key);
+    if (!cluster) clusters.set(key, cluster = { key, label: groupLabel(key, mode), members: [], done: 0 });
+    cluster.members.push(t.id);
+    if (isDone(t)) cluster.done++;
+  });
+  return clusters;
+}
+
+/** Stand-in node for a collapsed group; it carries no task fields of its own. */
+function summaryNode(cluster: Cluster, mode: GroupMode): TaskNode {
+  const total = cluster.members.length;
+  return {
+    id: summaryId(cluster.key),
+    text: cluster.label,
+    status: cluster.done === total ? 'x' : ' ',
+    completed: cluster.done === total,
+    cancelled: false,
+    children: [],
+    parent: null,
+    blockers: [],
+    file: mode === 'file' ? cluster.key : '',
+    line: 0,
+    depth: 0,
+    tags: [],
+    priority: 'none',
+    recurrence: null,
+    scheduled: null,
+    start: null,
+    due: null,
+    done: null,
+    created: null,
+    cancelledDate: null,
+    summary: { key: cluster.key, done: cluster.done, total },
+  };
+}
+
+/**
+ * Replaces the members of collapsed groups with one summary node each,
+ * placed at the members' centre. Links to members are redirected to the
+ * summary node, dropping the ones that end up inside a single group.
+ */
+export function collapseClusters(
+  nodes: TaskNode[], links: TaskLink[], clusters: Map<string, Cluster>, collapsed: ReadonlySet<string>, mode: GroupMode
+): { nodes: TaskNode[]; links: TaskLink[] } {
+  const redirect = new Map<string, string>();
+  const summaries: TaskNode[] = [];
+  const byId = new Map(nodes.map(n => [n.id, n] as [string, TaskNode]));
+  clusters.forEach(cluster => {
+    if (!collapsed.has(cluster.key)) return;
+    const summary = summaryNode(cluster, mode);
+    const placed = cluster.members.map(id => byId.get(id)).filter(n => n?.x !== undefined && n?.y !== undefined) as TaskNode[];
+    if (placed.length) {
+      summary.x = placed.reduce((sum, n) => sum + n.x!, 0) / placed.length;
+      summary.y = placed.reduce((sum, n) => sum + n.y!, 0) / placed.length;
+    }
+    cluster.members.forEach(id => redirect.set(id, summary.id));
+    summaries.push(summary);
+  });
+  if (!summaries.length) return { nodes, links };
+
+  const seen = new Set<string>();
+  const redirected: TaskLink[] = [];
+  links.forEach(l => {
+    const source = redirect.get(endpointId(l.source)) ?? endpointId(l.source);
+    const target = redirect.get(endpointId(l.target)) ?? endpointId(l.target);
+    const key = `${source}->${target}:${l.type}`;
+    if (source === target || seen.has(key)) return;
+    seen.add(key);
+    redirected.push({ ...l, source, target });
+  });
+  return { nodes: [...nodes.filter(n => !redirect.has(n.id)), ...summaries], links: redirected };
+}
+
+/** Pulls each grouped node towards the centre of its group. */
+export function forceCluster(keyOf: (node: TaskNode) => string | null, strength = 0.1) {
+  let nodes: TaskNode[] = [];
+  const force = (alpha: number) => {
+    const centres = new Map<string, { x: number; y: number; count: number }>();
+    nodes.forEach(n => {
+      const key = keyOf(n);
+      if (key === null || n.x === undefined || n.y === undefined) return;
+      const c = centres.get(key) ?? { x: 0, y: 0, count: 0 };
+      c.x += n.x; c.y += n.y; c.count++;
+      centres.set(key, c);
+    });
+    nodes.forEach(n => {
+      const key = keyOf(n);
+      const c = key === null ? undefined : centres.get(key);
+      if (!c || c.count < 2 || n.x === undefined || n.y === undefined) return;
+      const node = n as TaskNode & { vx?: number; vy?: number };
+      node.vx = (node.vx ?? 0) + (c.x / c.count - n.x) * strength * alpha;
+      node.vy = (node.vy ?? 0) + (c.y / c.count - n.y) * strength * alpha;
+    });
+  };
+  force.initialize = (ns: TaskNode[]) => { nodes = ns; };
+  return force;
+}
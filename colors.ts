@@ -6,4 +6,51 @@ export const COLORS = {
   orange: "#F7BB4B",
   blue: "#4a90e2",
   red: "#ff5555",
+  purple: "#a882ff",
+}
+
+export type ColorName = keyof typeof COLORS;
+export type ColorPalette = Record<ColorName, string>;
+
+/** Colors of the active Obsidian theme, so encodings stay readable in dark mode. */
+export interface ThemePalette {
+  red: string;
+  orange: string;
+  yellow: string;
+  green: string;
+  cyan: string;
+  blue: string;
+  purple: string;
+  pink: string;
+  text: string;
+  muted: string;
+  faint: string;
+  background: string;
+  border: string;
+}
+
+const THEME_VARIABLES: Record<keyof ThemePalette, [string, string]> = {
+  red: ['--color-red', '#e93147'],
+  orange: ['--color-orange', '#ec7500'],
+  yellow: ['--color-yellow', '#e0ac00'],
+  green: ['--color-green', '#08b94e'],
+  cyan: ['--color-cyan', '#00bfbc'],
+  blue: ['--color-blue', '#086ddd'],
+  purple: ['--color-purple', '#7852ee'],
+  pink: ['--color-pink', '#d53984'],
+  text: ['--text-normal', '#222222'],
+  muted: ['--text-muted', '#5c5c5c'],
+  faint: ['--text-faint', '#ababab'],
+  background: ['--background-primary', '#ffffff'],
+  border: ['--background-modifier-border', '#e0e0e0'],
+};
+
+export function readTheme(el: HTMLElement): ThemePalette {
+  const style = getComputedStyle(el);
+  const palette = {} as ThemePalette;
+  (Object.keys(THEME_VARIABLES) as (keyof ThemePalette)[]).forEach(key => {
+    const [variable, fallback] = THEME_VARIABLES[key];
+    palette[key] = style.getPropertyValue(variable).trim() || fallback;
+  });
+  return palette;
 }
@@ -0,0 +1,58 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { COLORS, ThemePalette } from "colors";
+import { createEncoder, EncodingOptions } from "encoding";
+import { parseTasks } from "taskParser";
+import { Task } from "types";
+
+const theme: ThemePalette = {
+  red: 'red', orange: 'orange', yellow: 'yellow', green: 'green', cyan: 'cyan', blue: 'blue',
+  purple: 'purple', pink: 'pink', text: 'text', muted: 'muted', faint: 'faint', background: 'bg', border: 'border',
+};
+
+function encoder(tasks: Task[], options: Partial<EncodingOptions> = {}) {
+  return createEncoder(tasks, {
+    color: 'due', size: 'uniform', outline: 'none',
+    nodeSize: { baseRadius: 20, depthStep: 3, minRadius: 6 },
+    colors: COLORS, theme, byId: new Map(tasks.map(t => [t.id, t] as [string, Task])),
+    ...options,
+  });
+}
+
+describe('due urgency', () => {
+  beforeAll(() => { vi.stubEnv('TZ', 'Europe/Berlin'); });
+  afterAll(() => { vi.unstubAllEnvs(); });
+
+  it('classes dates by calendar day', () => {
+    const tasks = parseTasks([
+      '- [ ] A 📅 2024-05-09',
+      '- [ ] B 📅 2024-05-10',
+      '- [ ] C 📅 2024-05-11',
+      '- [ ] D 📅 2024-05-16',
+      '- [ ] E 📅 2024-06-01',
+      '- [ ] F',
+      '- [x] G 📅 2024-05-01',
+    ].join('\n'), 'a.md');
+    const e = encoder(tasks, { today: new Date(2024, 4, 10, 18, 30) });
+    expect(tasks.map(e.fill)).toEqual(['red', 'orange', 'yellow', 'green', 'blue', 'faint', 'muted']);
+  });
+
+  it('counts tomorrow as tomorrow across a daylight saving change', () => {
+    const tasks = parseTasks('- [ ] Spring 📅 2024-04-01\n- [ ] Autumn 📅 2024-10-28', 'a.md');
+    expect(encoder(tasks, { today: new Date(2024, 2, 31) }).fill(tasks[0])).toBe('yellow');
+    expect(encoder(tasks, { today: new Date(2024, 9, 27) }).fill(tasks[1])).toBe('yellow');
+  });
+});
+
+describe('createEncoder', () => {
+  it('lists only the categories in use in the legend', () => {
+    const tasks = parseTasks('- [ ] A 🔺\n- [ ] B', 'a.md');
+    const e = encoder(tasks, { color: 'priority' });
+    expect(e.legend[0].entries.map(entry => entry.label)).toEqual(['Highest', 'Normal']);
+  });
+
+  it('bounds radii by the minimum size', () => {
+    const tasks = parseTasks('- [ ] A\n  - [ ] B\n    - [ ] C', 'a.md');
+    const e = encoder(tasks, { size: 'depth', nodeSize: { baseRadius: 10, depthStep: 3, minRadius: 6 } });
+    expect(tasks.map(e.radius)).toEqual([10, 7, 6]);
+  });
+});
@@ -0,0 +1,249 @@
+import { ColorPalette, ThemePalette } from "colors";
+import { isBlocked, isDone } from "filters";
+import { NodeSizeSettings } from "settings";
+import { Task, TaskPriority } from "types";
+
+export type ColorEncoding = 'structure' | 'priority' | 'due' | 'overdue' | 'status' | 'folder' | 'tag' | 'blockers';
+export type SizeEncoding = 'depth' | 'priority' | 'due' | 'blockers' | 'uniform';
+export type OutlineEncoding = ColorEncoding | 'none';
+
+export const COLOR_ENCODINGS: Record<ColorEncoding, string> = {
+  structure: 'Structure',
+  priority: 'Priority',
+  due: 'Due urgency',
+  overdue: 'Overdue',
+  status: 'Completion',
+  folder: 'Folder',
+  tag: 'First tag',
+  blockers: 'Blocker count',
+};
+
+export const SIZE_ENCODINGS: Record<SizeEncoding, string> = {
+  depth: 'Depth',
+  priority: 'Priority',
+  due: 'Due urgency',
+  blockers: 'Blocker count',
+  uniform: 'Same size',
+};
+
+export const OUTLINE_ENCODINGS: Record<OutlineEncoding, string> = {
+  ...COLOR_ENCODINGS,
+  none: 'None',
+};
+
+/** Largest size factor, so callers can bound node radii. */
+export const MAX_SIZE_FACTOR = 1.5;
+
+export interface EncodingOptions {
+  color: ColorEncoding;
+  size: SizeEncoding;
+  outline: OutlineEncoding;
+  nodeSize: NodeSizeSettings;
+  /** User colors, used by the structure encoding. */
+  colors: ColorPalette;
+  theme: ThemePalette;
+  byId: Map<string, Task>;
+  today?: Date;
+}
+
+export interface LegendSection {
+  title: string;
+  entries: { label: string; color: string }[];
+}
+
+export interface Encoder {
+  fill(task: Task): string;
+  radius(task: Task): number;
+  /** Null when the task gets no outline of its own. */
+  outline(task: Task): { color: string; width: number } | null;
+  legend: LegendSection[];
+}
+
+interface Category {
+  key: string;
+  label: string;
+  color: string;
+}
+
+interface Classifier {
+  categories: Category[];
+  of(task: Task): string;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+type Urgency = 'overdue' | 'today' | 'soon' | 'week' | 'later' | 'none' | 'done';
+
+function urgency(task: Task, today: Date): Urgency {
+  if (isDone(task)) return 'done';
+  const date = task.due ?? task.scheduled;
+  if (!date) return 'none';
+  // Calendar days, so a daylight saving change in between does not shift them
+  const day = (d: Date) => Date.UTC(d.getFullYear(), d.getMonth(), d.getDate()) / DAY;
+  const days = day(date) - day(today);
+  return days < 0 ? 'overdue' : days === 0 ? 'today' : days <= 3 ? 'soon' : days <= 7 ? 'week' : 'later';
+}
+
+const VAULT_ROOT = 'Vault root';
+
+const folderOf = (task: Task) => {
+  const i = task.file.lastIndexOf('/');
+  return i >= 0 ? task.file.slice(0, i) : VAULT_ROOT;
+};
+
+// Folders and tags get the theme colors in order of frequency; the rest share one
+function categorical(tasks: Task[], keyOf: (task: Task) => string, missing: string, theme: ThemePalette): Classifier {
+  const counts = new Map<string, number>();
+  tasks.forEach(t => {
+    const key = keyOf(t);
+    if (key !== missing) counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+  const palette = [theme.blue, theme.green, theme.orange, theme.purple, theme.cyan, theme.pink, theme.yellow, theme.red];
+  const top = Array.from(counts.keys())
+    .sort((a, b) => counts.get(b)! - counts.get(a)! || a.localeCompare(b))
+    .slice(0, palette.length);
+  const categories: Category[] = top.map((key, i) => ({ key, label: key, color: palette[i] }));
+  if (counts.size > top.length) categories.push({ key: '', label: 'Other', color: theme.muted });
+  categories.push({ key: missing, label: missing, color: theme.faint });
+  const known = new Set(top);
+  return {
+    categories,
+    of: t => {
+      const key = keyOf(t);
+      return key === missing || known.has(key) ? key : '';
+    },
+  };
+}
+
+function classifier(encoding: ColorEncoding, tasks: Task[], options: EncodingOptions): Classifier {
+  const { theme, colors, byId } = options;
+  const today = options.today ?? new Date();
+  switch (encoding) {
+    case 'structure':
+      return {
+        categories: [
+          { key: 'blocked', label: 'Has blockers', color: colors.orange },
+          { key: 'root', label: 'Root task', color: colors.green },
+          { key: 'parent', label: 'Has subtasks', color: colors.yellow },
+          { key: 'leaf', label: 'Leaf task', color: colors.cyan },
+        ],
+        of: t => t.blockers.length ? 'blocked' : t.depth === 0 ? 'root' : t.children.length ? 'parent' : 'leaf',
+      };
+    case 'priority':
+      return {
+        categories: [
+          { key: 'highest', label: 'Highest', color: theme.red },
+          { key: 'high', label: 'High', color: theme.orange },
+          { key: 'medium', label: 'Medium', color: theme.yellow },
+          { key: 'none', label: 'Normal', color: theme.faint },
+          { key: 'low', label: 'Low', color: theme.cyan },
+          { key: 'lowest', label: 'Lowest', color: theme.blue },
+        ],
+        of: t => t.priority,
+      };
+    case 'due':
+      return {
+        categories: [
+          { key: 'overdue', label: 'Overdue', color: theme.red },
+          { key: 'today', label: 'Today', color: theme.orange },
+          { key: 'soon', label: 'In 3 days', color: theme.yellow },
+          { key: 'week', label: 'In a week', color: theme.green },
+          { key: 'later', label: 'Later', color: theme.blue },
+          { key: 'none', label: 'No date', color: theme.faint },
+          { key: 'done', label: 'Done', color: theme.muted },
+        ],
+        of: t => urgency(t, today),
+      };
+    case 'overdue':
+      return {
+        categories: [
+          { key: 'overdue', label: 'Overdue', color: theme.red },
+          { key: 'ok', label: 'Not overdue', color: theme.faint },
+        ],
+        of: t => urgency(t, today) === 'overdue' ? 'overdue' : 'ok',
+      };
+    case 'status':
+      return {
+        categories: [
+          { key: 'open', label: 'Open', color: theme.cyan },
+          { key: 'progress', label: 'In progress', color: theme.blue },
+          { key: 'blocked', label: 'Blocked', color: theme.orange },
+          { key: 'done', label: 'Done', color: theme.green },
+          { key: 'cancelled', label: 'Cancelled', color: theme.muted },
+        ],
+        of: t => t.cancelled ? 'cancelled'
+          : t.completed ? 'done'
+          : isBlocked(t, byId) ? 'blocked'
+          : t.status === '/' ? 'progress'
+          : 'open',
+      };
+    case 'folder':
+      return categorical(tasks, folderOf, VAULT_ROOT, theme);
+    case 'tag':
+      return categorical(tasks, t => t.tags[0] ?? 'No tag', 'No tag', theme);
+    case 'blockers':
+      return {
+        categories: [
+          { key: '0', label: 'None', color: theme.green },
+          { key: '1', label: '1', color: theme.yellow },
+          { key: '2', label: '2', color: theme.orange },
+          { key: '3', label: '3 or more', color: theme.red },
+        ],
+        of: t => String(Math.min(t.blockers.length, 3)),
+      };
+  }
+}
+
+const PRIORITY_SIZE: Record<TaskPriority, number> = {
+  highest: 1.5, high: 1.3, medium: 1.15, none: 1, low: 0.85, lowest: 0.7,
+};
+
+const URGENCY_SIZE: Record<Urgency, number> = {
+  overdue: 1.5, today: 1.35, soon: 1.2, week: 1.1, later: 1, none: 0.9, done: 0.75,
+};
+
+function sizeFactor(encoding: SizeEncoding, task: Task, today: Date): number {
+  switch (encoding) {
+    case 'depth':
+    case 'uniform': return 1;
+    case 'priority': return PRIORITY_SIZE[task.priority];
+    case 'due': return URGENCY_SIZE[urgency(task, today)];
+    case 'blockers': return 1 + Math.min(task.blockers.length, 4) * 0.125;
+  }
+}
+
+/**
+ * Maps tasks to fill, radius and outline for the chosen encodings. Folder
+ * and tag colors are assigned from `tasks`, so they follow what is shown.
+ */
+export function createEncoder(tasks: Task[], options: EncodingOptions): Encoder {
+  const { nodeSize, theme } = options;
+  const today = options.today ?? new Date();
+  const fills = classifier(options.color, tasks, options);
+  const fillColor = new Map(fills.categories.map(c => [c.key, c.color] as [string, string]));
+  const outlines = options.outline === 'none' || options.outline === 'structure'
+    ? null
+    : classifier(options.outline, tasks, options);
+  const outlineColor = new Map(outlines?.categories.map(c => [c.key, c.color] as [string, string]));
+
+  const legend: LegendSection[] = [];
+  const used = (c: Classifier) => {
+    const keys = new Set(tasks.map(c.of));
+    return c.categories.filter(cat => keys.has(cat.key)).map(({ label, color }) => ({ label, color }));
+  };
+  legend.push({ title: COLOR_ENCODINGS[options.color], entries: used(fills) });
+  if (outlines) legend.push({ title: `Outline: ${OUTLINE_ENCODINGS[options.outline]}`, entries: used(outlines) });
+
+  return {
+    fill: t => fillColor.get(fills.of(t)) ?? theme.muted,
+    radius: t => options.size === 'depth'
+      ? Math.max(nodeSize.minRadius, nodeSize.baseRadius - t.depth * nodeSize.depthStep)
+      : Math.max(nodeSize.minRadius, nodeSize.baseRadius * sizeFactor(options.size, t, today)),
+    outline: t => {
+      if (options.outline === 'none') return null;
+      if (!outlines) return t.depth === 0 ? { color: options.colors.darkGreen, width: 2 } : { color: theme.muted, width: 1 };
+      return { color: outlineColor.get(outlines.of(t)) ?? theme.muted, width: 3 };
+    },
+    legend,
+  };
+}
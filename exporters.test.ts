@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { toDot, toJson, toMermaid, toSvg } from "exporters";
+import { buildLinks, taskById } from "filters";
+import { parseTasks } from "taskParser";
+import { TaskNode } from "types";
+
+function graph() {
+  const tasks = parseTasks([
+    '- [ ] Release 🆔 release ⛔ build',
+    '  - [x] Notes "v2"',
+    '- [x] Build 🆔 build',
+  ].join('\n'), 'plan.md');
+  const nodes: TaskNode[] = tasks.map((t, i) => ({ ...t, x: i * 100, y: i * 50 }));
+  return { nodes, links: buildLinks(tasks, taskById(tasks)) };
+}
+
+const style = { radius: () => 10, fill: () => '#abc', linkColor: () => '#999', textColor: '#ddd', background: '#111' };
+
+describe('exporters', () => {
+  it('writes a Mermaid flowchart with one done mark per completed task', () => {
+    const mermaid = toMermaid(graph());
+    expect(mermaid).toContain('t0["Release"]');
+    expect(mermaid).toContain('t1["✅ Notes #quot;v2#quot;"]');
+    expect(mermaid).not.toContain('✅ ✅');
+    expect(mermaid).toContain('t0 --> t1');
+    expect(mermaid).toContain('t2 -.->|blocks| t0');
+    expect(mermaid).toContain('class t1,t2 done;');
+  });
+
+  it('writes DOT with escaped labels and dashed dependencies', () => {
+    const dot = toDot(graph(), style);
+    expect(dot).toContain('"build" [label="✅ Build", fillcolor="#abc"];');
+    expect(dot).toContain('label="✅ Notes \\"v2\\""');
+    expect(dot).toContain('"build" -> "release" [style=dashed, color="#999"];');
+  });
+
+  it('exports the task text itself to JSON', () => {
+    const json = JSON.parse(toJson(graph()));
+    expect(json.nodes.map((n: { text: string }) => n.text)).toEqual(['Release', 'Notes "v2"', 'Build']);
+    expect(json.links).toContainEqual({ source: 'build', target: 'release', type: 'dependency' });
+  });
+
+  it('writes an SVG covering every node', () => {
+    const svg = toSvg(graph(), style);
+    expect(svg).toContain('viewBox="-40 -40 280 180"');
+    expect(svg).toContain('<title>✅ Notes &quot;v2&quot;</title>');
+    expect(svg).toContain('stroke-dasharray="5 5"');
+    expect(svg).toContain('<rect x="-40" y="-40" width="280" height="180" fill="#111"/>');
+    expect(svg).toContain('fill="#ddd">Release</text>');
+    expect(svg).toContain('fill="#ddd">✅ Build</text>');
+  });
+
+  it('fits the SVG to nodes away from the origin', () => {
+    const { nodes, links } = graph();
+    const moved = nodes.map(n => ({ ...n, x: n.x! + 1000, y: n.y! + 500 }));
+    expect(toSvg({ nodes: moved, links }, style)).toContain('viewBox="960 460 280 180"');
+  });
+});
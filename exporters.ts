@@ -0,0 +1,121 @@
+import { endpointId } from "filters";
+import { formatDate } from "taskParser";
+import { TaskLink, TaskNode } from "types";
+
+export type ExportFormat = 'mermaid' | 'dot' | 'json' | 'svg' | 'png';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { name: string; extension: string }> = {
+  mermaid: { name: 'Mermaid', extension: 'md' },
+  dot: { name: 'Graphviz DOT', extension: 'dot' },
+  json: { name: 'JSON', extension: 'json' },
+  svg: { name: 'SVG', extension: 'svg' },
+  png: { name: 'PNG', extension: 'png' },
+};
+
+export interface ExportGraph {
+  nodes: TaskNode[];
+  links: TaskLink[];
+}
+
+/** Drawing details shared with the canvas renderer. */
+export interface ExportStyle {
+  radius: (node: TaskNode) => number;
+  fill: (node: TaskNode) => string;
+  linkColor: (link: TaskLink) => string;
+  /** Label and background colors, from the theme so labels stay readable. */
+  textColor: string;
+  background: string;
+}
+
+// Nodes keep the task text; the done mark is added only where it is drawn
+export const displayText = (node: TaskNode) => node.completed && !node.summary ? `✅ ${node.text}` : node.text;
+
+/** The label drawn on a node, shortened to fit beside it. */
+export function shortLabel(node: TaskNode): string {
+  const full = displayText(node);
+  return full.length > 20 ? `${full.slice(0, 17)}…` : full;
+}
+
+const label = (node: TaskNode) => node.summary ? `${node.text} (${node.summary.done}/${node.summary.total})` : displayText(node);
+
+export function toMermaid({ nodes, links }: ExportGraph, direction: 'TD' | 'LR' = 'TD'): string {
+  const key = new Map(nodes.map((n, i) => [n.id, `t${i}`] as [string, string]));
+  const escape = (s: string) => s.replace(/"/g, '#quot;');
+  const lines = [`flowchart ${direction}`];
+  nodes.forEach(n => lines.push(`  ${key.get(n.id)}["${escape(label(n))}"]`));
+  links.forEach(l => {
+    const source = key.get(endpointId(l.source)), target = key.get(endpointId(l.target));
+    if (!source || !target) return;
+    lines.push(l.type === 'dependency' ? `  ${source} -.->|blocks| ${target}`
+      : l.type === 'reference' ? `  ${source} -.- ${target}`
+      : `  ${source} --> ${target}`);
+  });
+  const done = nodes.filter(n => n.completed).map(n => key.get(n.id));
+  if (done.length) {
+    lines.push('  classDef done opacity:0.6;');
+    lines.push(`  class ${done.join(',')} done;`);
+  }
+  return lines.join('\n');
+}
+
+export function toDot({ nodes, links }: ExportGraph, style: ExportStyle): string {
+  const quote = (s: string) => `"${s.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  const lines = [
+    'digraph tasks {',
+    '  rankdir=TB;',
+    '  node [shape=box, style="rounded,filled"];',
+  ];
+  nodes.forEach(n => lines.push(`  ${quote(n.id)} [label=${quote(label(n))}, fillcolor=${quote(style.fill(n))}];`));
+  links.forEach(l => {
+    const lineStyle = l.type === 'dependency' ? 'style=dashed, ' : l.type === 'reference' ? 'style=dotted, arrowhead=none, ' : '';
+    const attrs = `${lineStyle}color=${quote(style.linkColor(l))}`;
+    lines.push(`  ${quote(endpointId(l.source))} -> ${quote(endpointId(l.target))} [${attrs}];`);
+  });
+  lines.push('}');
+  return lines.join('\n');
+}
+
+export function toJson({ nodes, links }: ExportGraph): string {
+  const date = (d: Date | null) => d ? formatDate(d) : null;
+  return JSON.stringify({
+    nodes: nodes.map(n => ({
+      id: n.id, text: n.text, status: n.status, completed: n.completed, cancelled: n.cancelled,
+      file: n.file, line: n.line, parent: n.parent, blockers: n.blockers, tags: n.tags,
+      priority: n.priority, recurrence: n.recurrence,
+      start: date(n.start), scheduled: date(n.scheduled), due: date(n.due), done: date(n.done),
+      x: n.x, y: n.y,
+    })),
+    links: links.map(l => ({ source: endpointId(l.source), target: endpointId(l.target), type: l.type })),
+  }, null, 2);
+}
+
+/** Standalone SVG of the whole graph at its current node positions. */
+export function toSvg({ nodes, links }: ExportGraph, style: ExportStyle): string {
+  const placed = nodes.filter(n => n.x !== undefined && n.y !== undefined);
+  const byId = new Map(placed.map(n => [n.id, n] as [string, TaskNode]));
+  const pad = 40;
+  // Bounds fit the nodes wherever they sit, falling back to the origin for an empty graph
+  const xs = placed.length ? placed.map(n => n.x!) : [0], ys = placed.length ? placed.map(n => n.y!) : [0];
+  const minX = Math.min(...xs) - pad, minY = Math.min(...ys) - pad;
+  const width = Math.max(...xs) + pad - minX, height = Math.max(...ys) + pad - minY;
+  const escape = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  const round = (v: number) => Math.round(v * 10) / 10;
+
+  const parts = [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${round(minX)} ${round(minY)} ${round(width)} ${round(height)}" width="${round(width)}" height="${round(height)}" font-family="sans-serif">`,
+    `  <rect x="${round(minX)}" y="${round(minY)}" width="${round(width)}" height="${round(height)}" fill="${style.background}"/>`,
+  ];
+  links.forEach(l => {
+    const s = byId.get(endpointId(l.source)), t = byId.get(endpointId(l.target));
+    if (!s || !t) return;
+    const dash = l.type === 'dependency' ? ' stroke-dasharray="5 5"' : l.type === 'reference' ? ' stroke-dasharray="2 4"' : '';
+    parts.push(`  <line x1="${round(s.x!)}" y1="${round(s.y!)}" x2="${round(t.x!)}" y2="${round(t.y!)}" stroke="${style.linkColor(l)}" stroke-width="2"${dash}/>`);
+  });
+  placed.forEach(n => {
+    parts.push(`  <g><title>${escape(label(n))}</title>`);
+    parts.push(`    <circle cx="${round(n.x!)}" cy="${round(n.y!)}" r="${round(style.radius(n))}" fill="${style.fill(n)}" stroke="#888"/>`);
+    parts.push(`    <text x="${round(n.x!)}" y="${round(n.y! + 5)}" font-size="${n.depth === 0 ? 12 : 10}" text-anchor="middle" dominant-baseline="middle" fill="${style.textColor}">${escape(shortLabel(n))}</text></g>`);
+  });
+  parts.push('</svg>');
+  return parts.join('\n');
+}
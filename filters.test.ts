@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { buildLinks, filterTasks, isBlocked, isReady, matchesTags, TaskFilter, taskById } from "filters";
+import { parseTasks } from "taskParser";
+
+const tasks = parseTasks([
+  '- [ ] Release 🆔 release ⛔ build, missing #work',
+  '  - [x] Notes #work #docs',
+  '    - [ ] Proofread',
+  '- [ ] Build 🆔 build #work',
+  '- [-] Old idea 🆔 old',
+  '- [ ] Plan 🆔 plan ⛔ old',
+].join('\n'), 'plan.md');
+const byId = taskById(tasks);
+const [release, notes, proofread, build, old, plan] = tasks;
+
+const filter = (overrides: Partial<TaskFilter> = {}): TaskFilter => ({
+  showCompleted: true, showBlocked: true, readyOnly: false,
+  selectedTags: new Set(), tagMode: 'any', showWithoutTags: false,
+  ...overrides,
+});
+
+describe('blocking', () => {
+  it('counts only open blockers that exist', () => {
+    expect(isBlocked(release, byId)).toBe(true);
+    expect(isBlocked(plan, byId)).toBe(false);
+    expect(isReady(plan, byId)).toBe(true);
+    expect(isReady(old, byId)).toBe(false);
+  });
+});
+
+describe('filterTasks', () => {
+  it('hides done, blocked or unready tasks', () => {
+    expect(filterTasks(tasks, filter({ showCompleted: false }), byId)).toEqual([release, proofread, build, plan]);
+    expect(filterTasks(tasks, filter({ showBlocked: false }), byId)).not.toContain(release);
+    expect(filterTasks(tasks, filter({ readyOnly: true }), byId)).toEqual([proofread, build, plan]);
+  });
+});
+
+describe('matchesTags', () => {
+  it('matches any or all selected tags', () => {
+    const selected = new Set(['#work', '#docs']);
+    expect(matchesTags(release, filter({ selectedTags: selected }))).toBe(true);
+    expect(matchesTags(release, filter({ selectedTags: selected, tagMode: 'all' }))).toBe(false);
+    expect(matchesTags(notes, filter({ selectedTags: selected, tagMode: 'all' }))).toBe(true);
+  });
+
+  it('lets untagged tasks through only when asked', () => {
+    expect(matchesTags(plan, filter())).toBe(true);
+    expect(matchesTags(plan, filter({ selectedTags: new Set(['#work']) }))).toBe(false);
+    expect(matchesTags(plan, filter({ showWithoutTags: true }))).toBe(true);
+    expect(matchesTags(build, filter({ showWithoutTags: true }))).toBe(false);
+  });
+});
+
+describe('buildLinks', () => {
+  it('links subtasks and blockers among visible tasks', () => {
+    expect(buildLinks(tasks, byId)).toEqual([
+      { source: 'build', target: 'release', type: 'dependency' },
+      { source: 'release', target: notes.id, type: 'hierarchy' },
+      { source: notes.id, target: proofread.id, type: 'hierarchy' },
+      { source: 'old', target: 'plan', type: 'dependency' },
+    ]);
+  });
+
+  it('skips hidden parents to the nearest visible ancestor', () => {
+    const visible = [release, proofread, build];
+    expect(buildLinks(visible, byId)).toContainEqual({ source: 'release', target: proofread.id, type: 'hierarchy' });
+    expect(buildLinks(visible, byId)).toHaveLength(2);
+  });
+
+  it('adds reference links to linked tasks', () => {
+    const linked = parseTasks('- [ ] Target ^t\n- [ ] Source', 'b.md');
+    linked[1].outlinks = [{ link: 'b#^t', path: 'b.md', blockId: 't', embed: false }];
+    expect(buildLinks(linked, taskById(linked), true)).toEqual([
+      { source: linked[1].id, target: linked[0].id, type: 'reference' },
+    ]);
+    expect(buildLinks(linked, taskById(linked))).toEqual([]);
+  });
+});
@@ -0,0 +1,84 @@
+import { blockIndex, referencedTasks } from "references";
+import { Task, TaskLink, TaskNode } from "types";
+
+export type TagMatchMode = 'any' | 'all';
+
+export interface TaskFilter {
+  showCompleted: boolean;
+  showBlocked: boolean;
+  readyOnly: boolean;
+  selectedTags: ReadonlySet<string>;
+  tagMode: TagMatchMode;
+  showWithoutTags: boolean;
+}
+
+export const isDone = (task: Task) => task.completed || task.cancelled;
+
+/** A task is blocked while any of its known blockers is still open. */
+export function isBlocked(task: Task, byId: Map<string, Task>): boolean {
+  return task.blockers.some(id => {
+    const blocker = byId.get(id);
+    return !!blocker && !isDone(blocker);
+  });
+}
+
+/** Ready tasks are open and have every known blocker done. */
+export const isReady = (task: Task, byId: Map<string, Task>) => !isDone(task) && !isBlocked(task, byId);
+
+/** With no tags selected and "without tags" off, every task passes. */
+export function matchesTags(task: Task, filter: TaskFilter): boolean {
+  const { selectedTags, tagMode, showWithoutTags } = filter;
+  if (!selectedTags.size && !showWithoutTags) return true;
+  if (!task.tags.length) return showWithoutTags;
+  if (!selectedTags.size) return false;
+  const selected = Array.from(selectedTags);
+  return tagMode === 'all'
+    ? selected.every(tag => task.tags.includes(tag))
+    : selected.some(tag => task.tags.includes(tag));
+}
+
+export function filterTasks(tasks: Task[], filter: TaskFilter, byId: Map<string, Task>): Task[] {
+  return tasks.filter(t =>
+    (filter.showCompleted || !isDone(t)) &&
+    (filter.showBlocked || !isBlocked(t, byId)) &&
+    (!filter.readyOnly || isReady(t, byId)) &&
+    matchesTags(t, filter)
+  );
+}
+
+/**
+ * Builds links between visible tasks. A task whose parent is hidden is
+ * attached to its nearest visible ancestor so the hierarchy stays connected.
+ * With `references` on, links on a task's line to another visible task
+ * become `reference` links.
+ */
+export function buildLinks(visible: Task[], byId: Map<string, Task>, references = false): TaskLink[] {
+  const ids = new Set(visible.map(t => t.id));
+  const blocks = references ? blockIndex(byId.values()) : null;
+  const links: TaskLink[] = [];
+  visible.forEach(t => {
+    const seen = new Set<string>();
+    let parent = t.parent;
+    while (parent && !ids.has(parent) && !seen.has(parent)) {
+      seen.add(parent);
+      parent = byId.get(parent)?.parent ?? null;
+    }
+    if (parent && ids.has(parent)) {
+      links.push({ source: parent, target: t.id, type: 'hierarchy' });
+    }
+    t.blockers.forEach(b => {
+      if (ids.has(b) && b !== t.id) {
+        links.push({ source: b, target: t.id, type: 'dependency' });
+      }
+    });
+    if (blocks) referencedTasks(t, blocks).forEach(target => {
+      if (ids.has(target.id)) links.push({ source: t.id, target: target.id, type: 'reference' });
+    });
+  });
+  return links;
+}
+
+// forceLink replaces link ends with node objects once the simulation starts
+export const endpointId = (end: string | TaskNode) => typeof end === 'string' ? end : end.id;
+
+export const taskById = (tasks: Task[]) => new Map(tasks.map(t => [t.id, t] as [string, Task]));
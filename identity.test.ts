@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { carryOverIds, movePinKeys, pinKeys } from "identity";
+import { parseTasks } from "taskParser";
+
+describe('carryOverIds', () => {
+  it('keeps ids when lines move and renames clashing new ids', () => {
+    const before = parseTasks('- [ ] Alpha\n  - [ ] Child\n- [ ] Beta ^blk\n- [ ] Gamma 🆔 g', 'a.md');
+    const after = parseTasks('- [ ] New\n- [ ] Alpha\n  - [ ] Child\n- [ ] Beta edited ^blk\n- [ ] Gamma 🆔 g', 'a.md');
+    carryOverIds(before, after);
+    expect(after.map(t => t.id)).toEqual(['task-a.md-0~2', 'task-a.md-0', 'task-a.md-1', 'task-a.md-2', 'g']);
+    expect(after[2].parent).toBe('task-a.md-0');
+  });
+
+  it('prefers the closest line among tasks with the same text', () => {
+    const before = parseTasks('- [ ] Same\n- [ ] Other\n- [ ] Same', 'a.md');
+    const after = parseTasks('- [ ] Other\n- [ ] Same', 'a.md');
+    carryOverIds(before, after);
+    expect(after.map(t => t.id)).toEqual(['task-a.md-1', 'task-a.md-0']);
+  });
+
+  it('avoids ids taken elsewhere', () => {
+    const tasks = parseTasks('- [ ] Fresh', 'a.md');
+    carryOverIds([], tasks, id => id === 'task-a.md-0');
+    expect(tasks[0].id).toBe('task-a.md-0~2');
+  });
+
+  it('carries ids over to a renamed note', () => {
+    const before = parseTasks('- [ ] Alpha', 'old.md');
+    const after = parseTasks('- [ ] Alpha', 'new.md');
+    carryOverIds(before, after);
+    expect(after[0].id).toBe('task-old.md-0');
+  });
+});
+
+describe('pinKeys', () => {
+  it('keys tasks by declared id, block id or text', () => {
+    const tasks = parseTasks('- [ ] A 🆔 a\n- [ ] B ^blk\n- [ ] C\n- [ ] C', 'n.md');
+    expect(Array.from(pinKeys(tasks).values())).toEqual(['a', 'n.md#^blk', 'n.md#C', 'n.md#C#2']);
+  });
+
+  it('keeps the key of a task whose line moves', () => {
+    const before = parseTasks('- [ ] Pinned', 'n.md');
+    const after = parseTasks('- [ ] Inserted\n- [ ] Pinned', 'n.md');
+    const key = pinKeys(before).get(before[0].id);
+    expect(pinKeys(after).get(after[1].id)).toBe(key);
+    expect(pinKeys(after).get(after[0].id)).not.toBe(key);
+  });
+});
+
+describe('movePinKeys', () => {
+  it('follows renamed notes and folders', () => {
+    const pins: Record<string, unknown> = { 'a.md#X': 1, 'dir/b.md#^blk': 2, abc: 3, 'a.mdx#Y': 4 };
+    expect(movePinKeys(pins, 'a.md', 'c.md')).toBe(true);
+    expect(movePinKeys(pins, 'dir', 'other')).toBe(true);
+    expect(movePinKeys(pins, 'none.md', 'x.md')).toBe(false);
+    expect(pins).toEqual({ 'c.md#X': 1, 'other/b.md#^blk': 2, abc: 3, 'a.mdx#Y': 4 });
+  });
+});
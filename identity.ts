@@ -0,0 +1,85 @@
+import { Task } from "types";
+
+/**
+ * Gives tasks without a 🆔 the ids their earlier versions had, so pins,
+ * positions and selection survive lines moving and notes being renamed.
+ * A task takes the id of an earlier task with the same block id, else of
+ * one with the same text, the closest line winning. New tasks whose
+ * generated id is already used, here or where `taken` says, get a suffix.
+ */
+export function carryOverIds(previous: Task[], tasks: Task[], taken: (id: string) => boolean = () => false) {
+  const generated = tasks.filter(t => t.generatedId);
+  const unmatched = new Set(previous.filter(t => t.generatedId));
+  const ids = new Map<Task, string>();
+  const claim = (task: Task, old: Task | undefined) => {
+    if (!old) return;
+    ids.set(task, old.id);
+    unmatched.delete(old);
+  };
+
+  const byBlock = new Map<string, Task>();
+  unmatched.forEach(t => { if (t.blockId) byBlock.set(t.blockId, t); });
+  generated.forEach(task => { if (task.blockId) claim(task, byBlock.get(task.blockId)); });
+
+  const byText = new Map<string, Task[]>();
+  unmatched.forEach(t => byText.set(t.text, [...(byText.get(t.text) ?? []), t]));
+  generated.forEach(task => {
+    if (ids.has(task)) return;
+    const candidates = (byText.get(task.text) ?? []).filter(t => unmatched.has(t));
+    const distance = (t: Task) => Math.abs(t.line - task.line);
+    claim(task, candidates.sort((a, b) => distance(a) - distance(b))[0]);
+  });
+
+  const used = new Set(ids.values());
+  generated.forEach(task => {
+    if (ids.has(task)) return;
+    let id = task.id;
+    for (let n = 2; used.has(id) || taken(id); n++) id = `${task.id}~${n}`;
+    ids.set(task, id);
+    used.add(id);
+  });
+
+  const renamed = new Map<string, string>();
+  ids.forEach((id, task) => {
+    if (id !== task.id) renamed.set(task.id, id);
+    task.id = id;
+  });
+  if (!renamed.size) return;
+  tasks.forEach(t => {
+    if (t.parent) t.parent = renamed.get(t.parent) ?? t.parent;
+  });
+}
+
+/**
+ * Keys pins are saved under, by task id. Generated ids do not survive a
+ * restart, so those tasks are keyed by note and block id, else by note and
+ * text, counting repeats. Declared ids cannot contain `#`, so keys never clash.
+ */
+export function pinKeys(tasks: Task[]): Map<string, string> {
+  const keys = new Map<string, string>();
+  const seen = new Map<string, number>();
+  tasks.forEach(t => {
+    if (!t.generatedId) {
+      keys.set(t.id, t.id);
+      return;
+    }
+    const base = t.blockId ? `${t.file}#^${t.blockId}` : `${t.file}#${t.text}`;
+    const n = (seen.get(base) ?? 0) + 1;
+    seen.set(base, n);
+    keys.set(t.id, n > 1 ? `${base}#${n}` : base);
+  });
+  return keys;
+}
+
+/** Moves pins keyed by note from `oldPath`, a note or folder, to `newPath`. */
+export function movePinKeys(pins: Record<string, unknown>, oldPath: string, newPath: string): boolean {
+  let moved = false;
+  Object.keys(pins).forEach(key => {
+    const prefix = [`${oldPath}#`, `${oldPath}/`].find(p => key.startsWith(p));
+    if (!prefix) return;
+    pins[newPath + key.slice(oldPath.length)] = pins[key];
+    delete pins[key];
+    moved = true;
+  });
+  return moved;
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { layeredLayout, taskDate, timeScale } from "layouts";
+import { parseTasks } from "taskParser";
+
+const options = { direction: 'TB' as const, nodeSpacing: 50, layerSpacing: 100 };
+
+describe('taskDate', () => {
+  it('prefers scheduled, then start, then due', () => {
+    const [a, b, c] = parseTasks([
+      '- [ ] A 📅 2024-03-10 ⏳ 2024-03-05 🛫 2024-03-01',
+      '- [ ] B 📅 2024-03-10 🛫 2024-03-01',
+      '- [ ] C 📅 2024-03-10',
+    ].join('\n'), 'a.md');
+    expect(taskDate(a)?.getDate()).toBe(5);
+    expect(taskDate(b)?.getDate()).toBe(1);
+    expect(taskDate(c)?.getDate()).toBe(10);
+  });
+});
+
+describe('timeScale', () => {
+  const today = new Date(2024, 2, 1);
+
+  it('fills the view when few days are shown', () => {
+    const scale = timeScale([], 800, today);
+    expect(scale.range()).toEqual([0, 800]);
+    expect(scale(today)).toBeCloseTo(400);
+  });
+
+  it('spreads long spans at about 12px per day', () => {
+    const tasks = parseTasks('- [ ] Later 📅 2024-05-30', 'a.md');
+    const scale = timeScale(tasks, 400, today);
+    expect(scale(new Date(2024, 2, 11)) - scale(today)).toBeCloseTo(120, 0);
+    expect(scale(today)).toBeLessThan(0);
+  });
+});
+
+describe('layeredLayout', () => {
+  it('places each node one layer below its deepest parent', () => {
+    const positions = layeredLayout(['a', 'b', 'c'], [
+      { source: 'a', target: 'b' },
+      { source: 'b', target: 'c' },
+      { source: 'a', target: 'c' },
+    ], options);
+    expect(['a', 'b', 'c'].map(id => positions.get(id)!.y)).toEqual([0, 100, 200]);
+    // The a -> c edge passes through a dummy node beside b
+    expect(positions.get('b')!.x).not.toBe(0);
+  });
+
+  it('centres siblings and swaps axes left to right', () => {
+    const edges = [{ source: 'a', target: 'b' }, { source: 'a', target: 'c' }];
+    const tb = layeredLayout(['a', 'b', 'c'], edges, options);
+    expect([tb.get('b')!.x, tb.get('c')!.x].sort((x, y) => x - y)).toEqual([-25, 25]);
+    const lr = layeredLayout(['a', 'b', 'c'], edges, { ...options, direction: 'LR' });
+    expect(lr.get('b')).toEqual({ x: tb.get('b')!.y, y: tb.get('b')!.x });
+  });
+
+  it('ignores self-loops and unknown nodes and breaks cycles', () => {
+    const positions = layeredLayout(['a', 'b'], [
+      { source: 'a', target: 'a' },
+      { source: 'a', target: 'missing' },
+      { source: 'a', target: 'b' },
+      { source: 'b', target: 'a' },
+    ], options);
+    expect(positions.size).toBe(2);
+    expect(new Set([positions.get('a')!.y, positions.get('b')!.y])).toEqual(new Set([0, 100]));
+  });
+});
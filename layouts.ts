@@ -0,0 +1,187 @@
+import * as d3 from "d3";
+import { Task } from "types";
+
+export type LayoutMode = 'force' | 'timeline' | 'dag';
+
+export const LAYOUT_NAMES: Record<LayoutMode, string> = {
+  force: 'Free',
+  timeline: 'Timeline',
+  dag: 'Hierarchy',
+};
+
+/** The date a task is placed by on the timeline: scheduled, then start, then due. */
+export const taskDate = (t: Task) => t.scheduled ?? t.start ?? t.due;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Time scale covering every dated task and today, with a little padding.
+ * Roughly 12px per day, never narrower than the view.
+ */
+export function timeScale(tasks: Task[], width: number, today = new Date()): d3.ScaleTime<number, number> {
+  const times = tasks.map(taskDate).filter((d): d is Date => !!d).map(d => d.getTime());
+  times.push(today.getTime());
+  const min = Math.min(...times) - 3 * DAY;
+  const max = Math.max(...times) + 3 * DAY;
+  const span = Math.min(Math.max(width, ((max - min) / DAY) * 12), 50000);
+  return d3.scaleTime().domain([new Date(min), new Date(max)]).range([(width - span) / 2, (width + span) / 2]);
+}
+
+export type DagDirection = 'TB' | 'LR';
+
+export interface LayeredEdge {
+  source: string;
+  target: string;
+}
+
+export interface LayeredOptions {
+  direction: DagDirection;
+  nodeSpacing: number;
+  layerSpacing: number;
+  sweeps?: number;
+}
+
+// Reverses edges that close a cycle, found with an iterative DFS
+function acyclicEdges(ids: string[], edges: LayeredEdge[]): LayeredEdge[] {
+  const out = new Map<string, string[]>(ids.map(id => [id, []] as [string, string[]]));
+  edges.forEach(e => out.get(e.source)!.push(e.target));
+  const state = new Map<string, 1 | 2>();
+  const back = new Set<string>();
+  ids.forEach(start => {
+    if (state.has(start)) return;
+    const stack: { id: string; next: number }[] = [{ id: start, next: 0 }];
+    state.set(start, 1);
+    while (stack.length) {
+      const frame = stack[stack.length - 1];
+      const targets = out.get(frame.id)!;
+      if (frame.next >= targets.length) {
+        state.set(frame.id, 2);
+        stack.pop();
+        continue;
+      }
+      const to = targets[frame.next++];
+      if (state.get(to) === 1) {
+        back.add(`${frame.id}->${to}`);
+      } else if (!state.has(to)) {
+        state.set(to, 1);
+        stack.push({ id: to, next: 0 });
+      }
+    }
+  });
+  return edges.map(e => back.has(`${e.source}->${e.target}`) ? { source: e.target, target: e.source } : e);
+}
+
+// Number of crossings between two layers, counted as inversions with a merge sort
+function countCrossings(edges: [number, number][]): number {
+  const targets = edges.slice().sort((a, b) => a[0] - b[0] || a[1] - b[1]).map(e => e[1]);
+  const sort = (arr: number[]): [number[], number] => {
+    if (arr.length < 2) return [arr, 0];
+    const mid = arr.length >> 1;
+    const [left, l] = sort(arr.slice(0, mid));
+    const [right, r] = sort(arr.slice(mid));
+    const merged: number[] = [];
+    let count = l + r, i = 0, j = 0;
+    while (i < left.length && j < right.length) {
+      if (left[i] <= right[j]) merged.push(left[i++]);
+      else { merged.push(right[j++]); count += left.length - i; }
+    }
+    return [merged.concat(left.slice(i), right.slice(j)), count];
+  };
+  return sort(targets)[1];
+}
+
+/**
+ * Sugiyama-style layered layout: sources end up on the first layer, every
+ * edge points to a later layer, and barycenter sweeps reduce crossings.
+ * Returns positions relative to the top-left of the drawing.
+ */
+export function layeredLayout(ids: string[], rawEdges: LayeredEdge[], options: LayeredOptions): Map<string, { x: number; y: number }> {
+  const known = new Set(ids);
+  const seen = new Set<string>();
+  const edges = acyclicEdges(ids, rawEdges.filter(e => {
+    const key = `${e.source}->${e.target}`;
+    if (e.source === e.target || !known.has(e.source) || !known.has(e.target) || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  }));
+
+  // Longest-path layering
+  const preds = new Map<string, string[]>(ids.map(id => [id, []] as [string, string[]]));
+  const succs = new Map<string, string[]>(ids.map(id => [id, []] as [string, string[]]));
+  edges.forEach(e => { preds.get(e.target)!.push(e.source); succs.get(e.source)!.push(e.target); });
+  const layer = new Map<string, number>();
+  const indegree = new Map<string, number>(ids.map(id => [id, preds.get(id)!.length] as [string, number]));
+  const queue = ids.filter(id => indegree.get(id) === 0);
+  queue.forEach(id => layer.set(id, 0));
+  while (queue.length) {
+    const id = queue.shift()!;
+    succs.get(id)!.forEach(to => {
+      layer.set(to, Math.max(layer.get(to) ?? 0, layer.get(id)! + 1));
+      indegree.set(to, indegree.get(to)! - 1);
+      if (indegree.get(to) === 0) queue.push(to);
+    });
+  }
+
+  // Long edges are split with dummy nodes so every edge joins adjacent layers
+  const layers: string[][] = [];
+  const place = (id: string, l: number) => (layers[l] = layers[l] ?? []).push(id);
+  ids.forEach(id => place(id, layer.get(id) ?? 0));
+  const up = new Map<string, string[]>();
+  const down = new Map<string, string[]>();
+  const link = (a: string, b: string) => {
+    (down.get(a) ?? down.set(a, []).get(a)!).push(b);
+    (up.get(b) ?? up.set(b, []).get(b)!).push(a);
+  };
+  let dummies = 0;
+  edges.forEach(e => {
+    let prev = e.source;
+    for (let l = layer.get(e.source)! + 1; l < layer.get(e.target)!; l++) {
+      const dummy = `\u0000dummy-${dummies++}`;
+      place(dummy, l);
+      link(prev, dummy);
+      prev = dummy;
+    }
+    link(prev, e.target);
+  });
+
+  // Barycenter sweeps, keeping the ordering with the fewest crossings
+  const position = new Map<string, number>();
+  const index = () => layers.forEach(ids => ids.forEach((id, i) => position.set(id, i)));
+  const crossings = () => layers.slice(1).reduce((sum, ids, l) => {
+    const pairs: [number, number][] = [];
+    layers[l].forEach(a => down.get(a)?.forEach(b => pairs.push([position.get(a)!, position.get(b)!])));
+    return sum + countCrossings(pairs);
+  }, 0);
+  const reorder = (ids: string[], neighbours: Map<string, string[]>) => {
+    const weight = new Map(ids.map((id, i) => {
+      const ns = neighbours.get(id);
+      return [id, ns?.length ? ns.reduce((s, n) => s + position.get(n)!, 0) / ns.length : i] as [string, number];
+    }));
+    ids.sort((a, b) => weight.get(a)! - weight.get(b)!);
+    ids.forEach((id, i) => position.set(id, i));
+  };
+  index();
+  let best = layers.map(ids => ids.slice());
+  let bestCrossings = crossings();
+  for (let sweep = 0; sweep < (options.sweeps ?? 8) && bestCrossings > 0; sweep++) {
+    if (sweep % 2 === 0) {
+      for (let l = 1; l < layers.length; l++) reorder(layers[l], up);
+    } else {
+      for (let l = layers.length - 2; l >= 0; l--) reorder(layers[l], down);
+    }
+    const count = crossings();
+    if (count < bestCrossings) {
+      bestCrossings = count;
+      best = layers.map(ids => ids.slice());
+    }
+  }
+
+  const result = new Map<string, { x: number; y: number }>();
+  best.forEach((ids, l) => ids.forEach((id, i) => {
+    if (id.startsWith('\u0000')) return;
+    const across = (i - (ids.length - 1) / 2) * options.nodeSpacing;
+    const along = l * options.layerSpacing;
+    result.set(id, options.direction === 'TB' ? { x: across, y: along } : { x: along, y: across });
+  }));
+  return result;
+}
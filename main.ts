@@ -1,18 +1,80 @@
-import { Plugin, WorkspaceLeaf } from 'obsidian';
+import { debounce, Plugin, WorkspaceLeaf } from 'obsidian';
 import TaskGraphView from 'TasksGraphView';
+import GoalsView, { GOALS_VIEW_TYPE } from 'GoalsView';
+import TaskGraph from 'TaskGraph';
+import TaskGraphBlock from 'TaskGraphBlock';
+import TaskStore from 'TaskStore';
+import TaskGraphSettingTab from 'TaskGraphSettingTab';
+import { mergeSettings, TaskGraphSettings } from 'settings';
+import { EXPORT_FORMATS, ExportFormat } from 'exporters';
+import { createApi, TaskGraphApi } from 'api';
+import { movePinKeys } from 'identity';
 
 export default class TaskGraphPlugin extends Plugin {
+  index: TaskStore;
+  settings: TaskGraphSettings;
+  /** For other plugins and scripts; see `TaskGraphApi`. */
+  api: TaskGraphApi;
+  /** Every open graph, in views and in code blocks. */
+  graphs = new Set<TaskGraph>();
+
   async onload() {
+    await this.loadSettings();
+    this.index = this.addChild(new TaskStore(this.app));
+    // Other plugins are loaded by the time the layout is ready
+    this.app.workspace.onLayoutReady(() => this.index.use(this.settings.source));
+    this.api = createApi(this);
+    // Pins of tasks without a 🆔 are keyed by note path
+    this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+      if (movePinKeys(this.settings.pins, oldPath, file.path)) this.savePins();
+    }));
     this.registerView('task-graph', leaf => {
-        const view = new TaskGraphView(leaf, this.app)
+        const view = new TaskGraphView(leaf, this)
         return view;
     });
+    this.registerView(GOALS_VIEW_TYPE, leaf => new GoalsView(leaf, this));
+    this.registerMarkdownCodeBlockProcessor('tasks-graph', (source, el, ctx) => {
+      ctx.addChild(new TaskGraphBlock(el, this, source, ctx.sourcePath));
+    });
+    this.addSettingTab(new TaskGraphSettingTab(this.app, this));
     this.addRibbonIcon('network', 'Show Task Graph', () => this.activateView());
     this.addCommand({
       id: 'show-task-graph',
       name: 'Show Tasks Graph',
       callback: () => this.activateView(),
     });
+    this.addCommand({
+      id: 'show-task-goals',
+      name: 'Show task goals',
+      callback: () => this.activateView(GOALS_VIEW_TYPE),
+    });
+    (Object.keys(EXPORT_FORMATS) as ExportFormat[]).forEach(format => this.addCommand({
+      id: `export-graph-${format}`,
+      name: `Export task graph as ${EXPORT_FORMATS[format].name}`,
+      checkCallback: checking => {
+        const view = this.activeGraphView();
+        if (view && !checking) view.graph.exportGraph(format, 'file');
+        return !!view;
+      },
+    }));
+    this.addCommand({
+      id: 'pin-all-nodes',
+      name: 'Pin all nodes',
+      checkCallback: checking => {
+        const view = this.activeGraphView();
+        if (view && !checking) view.graph.pinAll();
+        return !!view;
+      },
+    });
+    this.addCommand({
+      id: 'unpin-all-nodes',
+      name: 'Unpin all nodes',
+      checkCallback: checking => {
+        const view = this.activeGraphView();
+        if (view && !checking) view.graph.unpinAll();
+        return !!view;
+      },
+    });
 
     const style = document.createElement('style');
     style.textContent = `
@@ -28,16 +90,65 @@ export default class TaskGraphPlugin extends Plugin {
       .task-graph-tags-clear { background: var(--interactive-accent); color: white; border: none; border-radius: 4px; padding: 5px 10px; cursor: pointer; font-size: 14px; margin-bottom: 10px; width: 100%; }
       .task-graph-tags-clear:hover { background: var(--interactive-accent-hover); }
       .task-graph-tags-empty { color: var(--text-muted); font-size: 14px; margin: 0; }
+      .task-graph-encoding-label { display: flex; align-items: center; justify-content: space-between; gap: 8px; margin-bottom: 8px; font-size: 14px; color: var(--text-normal); }
+      .task-graph-search { width: 160px; }
+      .task-graph-search-count { align-self: center; font-size: 13px; color: var(--text-muted); }
+      .task-graph-analysis { align-self: center; font-size: 13px; color: var(--text-error); cursor: pointer; }
+      .task-graph-diagnostics-section { margin-top: 8px; font-weight: 600; color: var(--text-normal); }
+      .task-graph-diagnostics-list { margin: 4px 0 0; padding-left: 16px; font-size: 13px; color: var(--text-normal); }
+      .task-graph-diagnostics-list li { cursor: pointer; }
+      .task-graph-diagnostics-list li:hover { color: var(--text-accent); }
+      .task-graph-diagnostics-file { color: var(--text-muted); }
+      .task-graph-tooltip { position: absolute; z-index: 30; pointer-events: none; max-width: 320px; padding: 8px 10px; background: var(--background-primary); border: 1px solid var(--background-modifier-border); border-radius: 6px; box-shadow: 0 4px 12px rgba(0,0,0,0.15); font-size: 13px; color: var(--text-normal); }
+      .task-graph-tooltip-title { font-weight: 600; margin-bottom: 4px; }
+      .task-graph-tooltip-file { color: var(--text-muted); margin-bottom: 4px; }
+      .task-graph-tooltip-section { margin-top: 4px; color: var(--text-muted); }
+      .task-graph-tooltip ul { margin: 2px 0 0; padding-left: 16px; }
+      .task-graph-block { border: 1px solid var(--background-modifier-border); border-radius: 6px; }
+      .task-graph-block-errors { color: var(--text-error); font-size: 13px; }
+      .task-graph-goals { font-size: 14px; }
+      .task-graph-goals-empty { color: var(--text-muted); }
+      .task-graph-goal { margin-bottom: 16px; }
+      .task-graph-goal-title { font-weight: 600; cursor: pointer; }
+      .task-graph-goal-title:hover { color: var(--text-accent); }
+      .task-graph-goal-bar { height: 4px; margin: 4px 0; border-radius: 2px; background: var(--background-modifier-border); overflow: hidden; }
+      .task-graph-goal-bar-fill { height: 100%; background: var(--color-green); }
+      .task-graph-goal-summary { font-size: 12px; color: var(--text-muted); }
+      .task-graph-goal ul { margin: 4px 0 0; padding-left: 18px; }
+      .task-graph-goal li { cursor: pointer; }
+      .task-graph-goal li:hover { color: var(--text-accent); }
     `;
     document.head.appendChild(style);
   }
 
-  async activateView() {
-    let leaf: WorkspaceLeaf | null = this.app.workspace.getLeavesOfType('task-graph')[0];
+  async loadSettings() {
+    this.settings = mergeSettings(await this.loadData());
+  }
+
+  async saveSettings() {
+    await this.saveData(this.settings);
+    this.graphs.forEach(graph => graph.refreshData());
+  }
+
+  // Pins change on every drag, so they are written without refreshing views
+  savePins = debounce(() => this.saveData(this.settings), 1000, true);
+
+  graphViews(): TaskGraphView[] {
+    return this.app.workspace.getLeavesOfType('task-graph')
+      .map(leaf => leaf.view)
+      .filter((view): view is TaskGraphView => view instanceof TaskGraphView);
+  }
+
+  private activeGraphView(): TaskGraphView | null {
+    return this.app.workspace.getActiveViewOfType(TaskGraphView) ?? this.graphViews()[0] ?? null;
+  }
+
+  async activateView(type = 'task-graph') {
+    let leaf: WorkspaceLeaf | null = this.app.workspace.getLeavesOfType(type)[0];
     if (!leaf) {
       leaf = this.app.workspace.getRightLeaf(false);
       if (leaf) {
-        await leaf.setViewState({ type: 'task-graph', active: true });
+        await leaf.setViewState({ type, active: true });
       }
     }
     if (leaf) {
@@ -0,0 +1,27 @@
+import { App, MarkdownView, TFile, WorkspaceLeaf } from "obsidian";
+import { Task } from "types";
+
+/** Opens the note holding `task` and puts the cursor on its line. */
+export async function openTask(app: App, task: Pick<Task, 'file' | 'line'>, inNew = false) {
+  const file = app.vault.getAbstractFileByPath(task.file);
+  if (!(file instanceof TFile)) return;
+
+  let leaf: WorkspaceLeaf;
+  if (inNew) {
+    leaf = app.workspace.getLeaf('tab');
+  } else {
+    const mdLeaves = app.workspace.getLeavesOfType('markdown');
+    leaf = mdLeaves.length > 0 ? mdLeaves[0] : app.workspace.getLeaf(false);
+  }
+
+  await leaf.openFile(file, { active: true });
+  setTimeout(() => {
+    if (!(leaf.view instanceof MarkdownView)) return;
+    const editor = leaf.view.editor;
+    editor.setCursor({ line: task.line, ch: 0 });
+    editor.scrollIntoView({
+      from: { line: Math.max(0, task.line - 5), ch: 0 },
+      to:   { line: task.line + 5, ch: 0 }
+    }, true);
+  }, 100);
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { taskById } from "filters";
+import { computeProgress, progressSummary } from "progress";
+import { parseTasks } from "taskParser";
+import { Task } from "types";
+
+const parse = (...lines: string[]) => {
+  const tasks = parseTasks(lines.join('\n'), 'goals.md');
+  return { tasks, byId: taskById(tasks) };
+};
+const texts = (tasks: Task[]) => tasks.map(t => t.text);
+
+describe('computeProgress', () => {
+  const { tasks, byId } = parse(
+    '- [ ] Launch 🆔 launch',
+    '  - [x] Pick name',
+    '  - [ ] Build site ⛔ hosting',
+    '- [ ] Move 🆔 move ⛔ hosting',
+    '  - [ ] Pack 📅 2024-05-10',
+    '- [ ] Hosting 🆔 hosting 📅 2024-06-01',
+  );
+  const progress = computeProgress(tasks, byId);
+
+  it('counts leaves reached through subtasks and blockers', () => {
+    expect(progress.get('launch')).toMatchObject({ done: 1, total: 2, blocked: 1 });
+    expect(texts(progress.get('launch')!.openLeaves)).toEqual(['Hosting']);
+  });
+
+  it('counts a leaf shared by two goals in both', () => {
+    expect(texts(progress.get('move')!.openLeaves).sort()).toEqual(['Hosting', 'Pack']);
+    expect(progress.get('move')).toMatchObject({ done: 0, total: 2, blocked: 0 });
+  });
+
+  it('reports the earliest date among open leaves', () => {
+    expect(progress.get('launch')!.nextDue).toEqual(new Date(2024, 5, 1));
+    expect(progress.get('move')!.nextDue).toEqual(new Date(2024, 4, 10));
+    expect(progressSummary(progress.get('launch')!)).toBe('1/2 done, 1 blocked, next due 2024-06-01');
+  });
+
+  it('only gives an entry to tasks that depend on something', () => {
+    expect(progress.has('hosting')).toBe(false);
+    expect(progress.has(tasks[1].id)).toBe(false);
+  });
+
+  it('counts a leaf reached twice from one goal once', () => {
+    const shared = parse('- [ ] Goal 🆔 goal ⛔ leaf', '  - [ ] Step ⛔ leaf', '- [ ] Leaf 🆔 leaf');
+    expect(computeProgress(shared.tasks, shared.byId).get('goal')).toMatchObject({ done: 0, total: 1 });
+  });
+
+  it('stops at cycles', () => {
+    const cyclic = parse('- [ ] A 🆔 a ⛔ b', '- [ ] B 🆔 b ⛔ a, c', '- [x] C 🆔 c', '- [ ] Self 🆔 self ⛔ self');
+    const result = computeProgress(cyclic.tasks, cyclic.byId);
+    expect(result.get('a')).toMatchObject({ done: 1, total: 1, blocked: 1 });
+    expect(result.has('self')).toBe(false);
+  });
+});
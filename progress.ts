@@ -0,0 +1,62 @@
+import { isBlocked, isDone } from "filters";
+import { formatDate } from "taskParser";
+import { Task } from "types";
+
+export interface Progress {
+  done: number;
+  total: number;
+  /** Open tasks it depends on, leaves or not, that are still waiting on a blocker. */
+  blocked: number;
+  /** Earliest due or scheduled date among open leaves. */
+  nextDue: Date | null;
+  openLeaves: Task[];
+}
+
+/**
+ * Rolls completion up from leaf tasks. A task depends on its subtasks and
+ * on its ⛔ blockers; its leaves are the tasks it reaches that depend on
+ * nothing. Shared leaves are counted once and cycles are cut. Only tasks
+ * with subtasks or known blockers get an entry.
+ */
+export function computeProgress(tasks: Task[], byId: Map<string, Task>): Map<string, Progress> {
+  const requires = (t: Task) => [
+    ...t.children,
+    ...t.blockers.map(id => byId.get(id)).filter((b): b is Task => !!b && b.id !== t.id),
+  ];
+  const progress = new Map<string, Progress>();
+  tasks.forEach(task => {
+    const direct = requires(task);
+    if (!direct.length) return;
+    const seen = new Set([task.id]);
+    const leaves: Task[] = [];
+    const reached: Task[] = [];
+    const stack = [...direct];
+    while (stack.length) {
+      const t = stack.pop()!;
+      if (seen.has(t.id)) continue;
+      seen.add(t.id);
+      reached.push(t);
+      const next = requires(t);
+      if (next.length) stack.push(...next);
+      else leaves.push(t);
+    }
+    const open = leaves.filter(t => !isDone(t));
+    const dates = open.map(t => t.due ?? t.scheduled).filter((d): d is Date => !!d);
+    progress.set(task.id, {
+      done: leaves.length - open.length,
+      total: leaves.length,
+      blocked: reached.filter(t => !isDone(t) && isBlocked(t, byId)).length,
+      nextDue: dates.length ? new Date(Math.min(...dates.map(d => d.getTime()))) : null,
+      openLeaves: open,
+    });
+  });
+  return progress;
+}
+
+/** One-line summary, e.g. `3/7 done, 2 blocked, next due 2024-05-01`. */
+export function progressSummary(p: Progress): string {
+  const parts = [`${p.done}/${p.total} done`];
+  if (p.blocked) parts.push(`${p.blocked} blocked`);
+  if (p.nextDue) parts.push(`next due ${formatDate(p.nextDue)}`);
+  return parts.join(', ');
+}
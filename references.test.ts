@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { buildLinks, taskById } from "filters";
+import { blockIndex, linkedBlockId, linkedTask, referencedTasks } from "references";
+import { parseTasks } from "taskParser";
+import { TaskOutlink } from "types";
+
+const link = (target: string, path: string | null, embed = false): TaskOutlink =>
+  ({ link: target, path, blockId: linkedBlockId(target), embed });
+
+const tasks = [
+  ...parseTasks('- [ ] Draft ^draft\n- [ ] Edit 🆔 edit ^edit', 'Writing/post.md'),
+  ...parseTasks('- [ ] Publish\n- [ ] Promote', 'plan.md'),
+];
+const [draft, edit, publish, promote] = tasks;
+const index = blockIndex(tasks);
+
+describe('block links', () => {
+  it('reads the block id of a link', () => {
+    expect(linkedBlockId('post#^draft')).toBe('draft');
+    expect(linkedBlockId('#^draft')).toBe('draft');
+    expect(linkedBlockId('post#Heading')).toBeNull();
+    expect(linkedBlockId('post')).toBeNull();
+  });
+
+  it('resolves `[[note#^id]]` links and embeds to the task holding the block', () => {
+    expect(linkedTask(link('post#^draft', 'Writing/post.md'), index)).toBe(draft);
+    expect(linkedTask(link('post#^edit', 'Writing/post.md', true), index)).toBe(edit);
+    expect(linkedTask(link('post#^draft', 'plan.md'), index)).toBeUndefined();
+    expect(linkedTask(link('missing#^draft', null), index)).toBeUndefined();
+  });
+});
+
+describe('referencedTasks', () => {
+  it('leaves out whole notes, headings, itself and repeats', () => {
+    publish.outlinks = [
+      link('post', 'Writing/post.md'),
+      link('post#Intro', 'Writing/post.md'),
+      link('post#^draft', 'Writing/post.md'),
+      link('post#^draft', 'Writing/post.md', true),
+    ];
+    edit.outlinks = [link('#^edit', 'Writing/post.md')];
+    expect(referencedTasks(publish, index)).toEqual([draft]);
+    expect(referencedTasks(edit, index)).toEqual([]);
+    expect(referencedTasks(promote, index)).toEqual([]);
+  });
+
+  it('turns block links into reference edges between visible tasks', () => {
+    publish.outlinks = [link('post', 'Writing/post.md'), link('post#^edit', 'Writing/post.md', true)];
+    promote.outlinks = [link('post#^draft', 'Writing/post.md')];
+    const byId = taskById(tasks);
+    expect(buildLinks(tasks, byId, true).filter(l => l.type === 'reference')).toEqual([
+      { source: publish.id, target: 'edit', type: 'reference' },
+      { source: promote.id, target: draft.id, type: 'reference' },
+    ]);
+    expect(buildLinks([publish, promote, edit], byId, true).filter(l => l.type === 'reference')).toEqual([
+      { source: publish.id, target: 'edit', type: 'reference' },
+    ]);
+  });
+});
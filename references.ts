@@ -0,0 +1,33 @@
+import { Task, TaskOutlink } from "types";
+
+/** Block id referenced by a `note#^id` or `#^id` link, if any. */
+export function linkedBlockId(link: string): string | null {
+  const i = link.indexOf('#^');
+  return i >= 0 ? link.slice(i + 2) : null;
+}
+
+const blockKey = (path: string, blockId: string) => `${path}#^${blockId}`;
+
+/** Tasks by the note and `^block-id` a link can point at. */
+export function blockIndex(tasks: Iterable<Task>): Map<string, Task> {
+  const index = new Map<string, Task>();
+  for (const t of tasks) {
+    if (t.blockId) index.set(blockKey(t.file, t.blockId), t);
+  }
+  return index;
+}
+
+/** The task a link points at, if it names a block that holds one. */
+export function linkedTask(link: TaskOutlink, index: Map<string, Task>): Task | undefined {
+  return link.path && link.blockId ? index.get(blockKey(link.path, link.blockId)) : undefined;
+}
+
+/** Tasks the links on a task's line resolve to; links to whole notes are left out. */
+export function referencedTasks(task: Task, index: Map<string, Task>): Task[] {
+  const targets: Task[] = [];
+  task.outlinks?.forEach(l => {
+    const target = linkedTask(l, index);
+    if (target && target.id !== task.id && !targets.includes(target)) targets.push(target);
+  });
+  return targets;
+}
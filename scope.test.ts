@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { taskById } from "filters";
+import { DEFAULT_SCOPE, GraphScope, inPaths, matchesQuery, selectScope } from "scope";
+import { parseTasks } from "taskParser";
+import { Task } from "types";
+
+const tasks = [
+  ...parseTasks([
+    '- [ ] Launch site #project/web 🆔 launch ⛔ copy ^launch',
+    '  - [ ] Pick hosting 🔼',
+    '- [x] Write copy #writing 🆔 copy ⛔ brief',
+    '- [ ] Brief 🆔 brief',
+  ].join('\n'), 'Projects/web.md'),
+  ...parseTasks('- [ ] Renew domain #admin ⏫', 'Areas/admin.md'),
+];
+const byId = taskById(tasks);
+// Sources resolve links from the metadata cache
+tasks[4].outlinks = [{ link: 'web#^launch', path: 'Projects/web.md', blockId: 'launch', embed: false }];
+
+const text = (selected: Task[]) => selected.map(t => t.text);
+const query = (q: string) => text(tasks.filter(t => matchesQuery(t, q, byId)));
+const scope = (overrides: Partial<GraphScope>): GraphScope => ({
+  ...DEFAULT_SCOPE, hops: 0, includeLinked: false, ...overrides,
+});
+
+describe('matchesQuery', () => {
+  it('matches tags with their subtags, paths, states and priorities', () => {
+    expect(query('#project')).toEqual(['Launch site']);
+    expect(query('path:areas')).toEqual(['Renew domain']);
+    expect(query('is:done')).toEqual(['Write copy']);
+    expect(query('is:blocked')).toEqual(['Write copy']);
+    expect(query('priority:high')).toEqual(['Renew domain']);
+  });
+
+  it('requires every term and negates terms with a leading dash', () => {
+    expect(query('path:projects is:open -#project')).toEqual(['Pick hosting', 'Brief']);
+    expect(query('SITE')).toEqual(['Launch site']);
+    expect(query('-')).toEqual([]);
+  });
+});
+
+describe('inPaths', () => {
+  it('accepts folders and notes with or without the extension', () => {
+    expect(inPaths('Projects/web.md', ['/Projects/'])).toBe(true);
+    expect(inPaths('Projects/web.md', ['Projects/web'])).toBe(true);
+    expect(inPaths('Projects2/web.md', ['Projects'])).toBe(false);
+    expect(inPaths('Projects/web.md', [' '])).toBe(false);
+  });
+});
+
+describe('selectScope', () => {
+  it('starts from tag, folder, note or query roots', () => {
+    expect(text(selectScope(tasks, scope({ rootTags: ['admin'] }), byId))).toEqual(['Renew domain']);
+    expect(text(selectScope(tasks, scope({ mode: 'paths', paths: ['Areas'] }), byId))).toEqual(['Renew domain']);
+    expect(text(selectScope(tasks, scope({ mode: 'paths', paths: ['Projects/web.md'] }), byId))).toHaveLength(4);
+    expect(text(selectScope(tasks, scope({ mode: 'query', query: 'is:done' }), byId))).toEqual(['Write copy']);
+    expect(selectScope(tasks, scope({ mode: 'query', query: ' ' }), byId)).toEqual([]);
+    expect(selectScope(tasks, scope({ mode: 'all' }), byId)).toBe(tasks);
+  });
+
+  it('grows over linked, blocking and child relations', () => {
+    const roots = { rootTags: ['#admin'] };
+    expect(text(selectScope(tasks, scope({ ...roots, hops: 1, includeLinked: true }), byId)))
+      .toEqual(['Launch site', 'Renew domain']);
+    expect(text(selectScope(tasks, scope({ ...roots, hops: 2, includeLinked: true, includeBlocking: true }), byId)))
+      .toEqual(['Launch site', 'Write copy', 'Renew domain']);
+    expect(text(selectScope(tasks, scope({ ...roots, hops: 2, includeLinked: true, includeChildren: true }), byId)))
+      .toEqual(['Launch site', 'Pick hosting', 'Renew domain']);
+  });
+
+  it('follows blockers in both directions', () => {
+    const fromBrief = scope({ mode: 'query', query: 'brief', hops: 2, includeBlocking: true });
+    expect(text(selectScope(tasks, fromBrief, byId))).toEqual(['Launch site', 'Write copy', 'Brief']);
+  });
+});
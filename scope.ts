@@ -0,0 +1,152 @@
+import { isBlocked, isDone } from "filters";
+import { blockIndex, referencedTasks } from "references";
+import { Task } from "types";
+
+export type ScopeMode = 'all' | 'tags' | 'paths' | 'query';
+
+/** Decides which tasks seed the graph and how far it grows around them. */
+export interface GraphScope {
+  mode: ScopeMode;
+  rootTags: string[];
+  paths: string[];
+  query: string;
+  hops: number;
+  includeLinked: boolean;
+  includeBlocking: boolean;
+  includeChildren: boolean;
+}
+
+export const DEFAULT_SCOPE: GraphScope = {
+  mode: 'tags',
+  rootTags: ['#want'],
+  paths: [],
+  query: '',
+  hops: 1,
+  includeLinked: true,
+  includeBlocking: false,
+  includeChildren: false,
+};
+
+export const normalizeTag = (tag: string) => {
+  const t = tag.trim().toLowerCase();
+  return !t || t.startsWith('#') ? t : `#${t}`;
+};
+
+export function inPaths(file: string, paths: string[]): boolean {
+  return paths.some(p => {
+    const path = p.trim().replace(/^\/+|\/+$/g, '');
+    if (!path) return false;
+    return file === path || file === `${path}.md` || file.startsWith(`${path}/`);
+  });
+}
+
+/**
+ * Matches a task against a space-separated query. Supported terms:
+ * `#tag`, `path:folder`, `is:open|done|blocked`, `priority:high` and plain
+ * words matched against the task text. A leading `-` negates a term.
+ */
+export function matchesQuery(task: Task, query: string, byId: Map<string, Task>): boolean {
+  const terms = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  return terms.every(raw => {
+    const negate = raw.startsWith('-') && raw.length > 1;
+    const term = negate ? raw.slice(1) : raw;
+    let hit: boolean;
+    if (term.startsWith('#')) {
+      hit = task.tags.some(t => t === term || t.startsWith(`${term}/`));
+    } else if (term.startsWith('path:')) {
+      hit = task.file.toLowerCase().includes(term.slice(5));
+    } else if (term.startsWith('is:')) {
+      const state = term.slice(3);
+      hit = state === 'done' ? isDone(task)
+        : state === 'open' ? !isDone(task)
+        : state === 'blocked' ? isBlocked(task, byId)
+        : false;
+    } else if (term.startsWith('priority:')) {
+      hit = task.priority === term.slice(9);
+    } else {
+      hit = task.text.toLowerCase().includes(term);
+    }
+    return negate ? !hit : hit;
+  });
+}
+
+function isRoot(task: Task, scope: GraphScope, byId: Map<string, Task>): boolean {
+  switch (scope.mode) {
+    case 'all': return true;
+    case 'tags': {
+      const tags = scope.rootTags.map(normalizeTag).filter(Boolean);
+      return task.tags.some(t => tags.includes(t));
+    }
+    case 'paths': return inPaths(task.file, scope.paths);
+    case 'query': return !!scope.query.trim() && matchesQuery(task, scope.query, byId);
+  }
+}
+
+/**
+ * Returns the tasks in scope: the roots selected by the scope mode plus
+ * everything within `hops` steps over the enabled relations.
+ */
+export function selectScope(tasks: Task[], scope: GraphScope, byId: Map<string, Task>): Task[] {
+  if (scope.mode === 'all') return tasks;
+
+  const blocks = blockIndex(tasks);
+
+  const neighbours = new Map<string, Set<string>>();
+  const connect = (from: string, to: string) => {
+    if (!neighbours.has(from)) neighbours.set(from, new Set());
+    neighbours.get(from)!.add(to);
+  };
+  tasks.forEach(t => {
+    if (scope.includeChildren && t.parent) {
+      connect(t.parent, t.id);
+    }
+    if (scope.includeBlocking) {
+      t.blockers.forEach(b => { connect(t.id, b); connect(b, t.id); });
+    }
+    if (scope.includeLinked) {
+      referencedTasks(t, blocks).forEach(target => { connect(t.id, target.id); connect(target.id, t.id); });
+    }
+  });
+
+  const selected = new Set(tasks.filter(t => isRoot(t, scope, byId)).map(t => t.id));
+  let frontier = Array.from(selected);
+  for (let hop = 0; hop < scope.hops && frontier.length; hop++) {
+    const next: string[] = [];
+    frontier.forEach(id => neighbours.get(id)?.forEach(n => {
+      if (!selected.has(n)) { selected.add(n); next.push(n); }
+    }));
+    frontier = next;
+  }
+  return tasks.filter(t => selected.has(t.id));
+}
+
+/**
+ * Tasks of one note, everything that blocks them (across files, however far
+ * up the chain) and root-tagged tasks tied to them: their parents, tasks
+ * they block and block links in either direction.
+ */
+export function focusOnFile(tasks: Task[], file: string, rootTags: string[], byId: Map<string, Task>): Task[] {
+  const selected = new Set(tasks.filter(t => t.file === file).map(t => t.id));
+
+  const queue = Array.from(selected);
+  while (queue.length) {
+    byId.get(queue.pop()!)?.blockers.forEach(b => {
+      if (byId.has(b) && !selected.has(b)) { selected.add(b); queue.push(b); }
+    });
+  }
+
+  const blocks = blockIndex(tasks);
+  const linked = (from: Task) => referencedTasks(from, blocks);
+  const linkedFromNote = new Set(([] as string[]).concat(
+    ...Array.from(selected, id => linked(byId.get(id)!).map(t => t.id))
+  ));
+  const tags = rootTags.map(normalizeTag).filter(Boolean);
+  const roots = tasks.filter(t => !selected.has(t.id) && t.tags.some(tag => tags.includes(tag)) && (
+    t.children.some(c => selected.has(c.id)) ||
+    t.blockers.some(b => selected.has(b)) ||
+    linked(t).some(target => selected.has(target.id)) ||
+    linkedFromNote.has(t.id)
+  ));
+  roots.forEach(t => selected.add(t.id));
+  return tasks.filter(t => selected.has(t.id));
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { fuzzyScore, searchTasks } from "search";
+import { parseTasks } from "taskParser";
+
+const tasks = parseTasks([
+  '- [ ] Fix login 🆔 login',
+  '- [ ] Prefix catalog 🆔 catalog',
+  '- [ ] Call plumber #home/repairs 🆔 plumber',
+  '- [ ] Renew passport 🆔 passport',
+].join('\n'), 'Areas/errands.md');
+
+const ids = (query: string) => searchTasks(tasks, query).map(r => r.id);
+
+describe('fuzzyScore', () => {
+  it('finds subsequences and rejects missing characters', () => {
+    expect(fuzzyScore('fxl', 'Fix login')).not.toBeNull();
+    expect(fuzzyScore('xyz', 'Fix login')).toBeNull();
+    expect(fuzzyScore('', 'anything')).toBe(0);
+  });
+
+  it('scores exact and word-start matches higher', () => {
+    expect(fuzzyScore('log', 'Fix login')!).toBeGreaterThan(fuzzyScore('log', 'Prefix catalog')!);
+    expect(fuzzyScore('login', 'Fix login')!).toBeGreaterThan(fuzzyScore('fxlgn', 'Fix login')!);
+    expect(fuzzyScore('fixlog', 'fix login')!).toBeGreaterThan(fuzzyScore('fixlog', 'prefix catalog')!);
+  });
+});
+
+describe('searchTasks', () => {
+  it('returns nothing for an empty query', () => {
+    expect(searchTasks(tasks, '')).toEqual([]);
+    expect(searchTasks(tasks, '   ')).toEqual([]);
+  });
+
+  it('matches text, tags and paths', () => {
+    expect(ids('plumber')).toEqual(['plumber']);
+    expect(ids('#home/rep')).toEqual(['plumber']);
+    expect(ids('errands')).toHaveLength(4);
+  });
+
+  it('requires every word and ranks the best match first', () => {
+    expect(ids('fixlog')).toEqual(['login', 'catalog']);
+    expect(ids('renew pass')).toEqual(['passport']);
+  });
+});
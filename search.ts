@@ -0,0 +1,59 @@
+import { Task } from "types";
+
+export interface SearchResult {
+  id: string;
+  score: number;
+}
+
+const WORD_START = /[\s/#_\-.[(]/;
+
+/**
+ * Scores `needle` as a subsequence of `haystack`, case-insensitively, or
+ * returns null when it does not occur. Consecutive characters and matches at
+ * the start of words score higher, so `fixlog` ranks "fix login" above
+ * "prefix catalog".
+ */
+export function fuzzyScore(needle: string, haystack: string): number | null {
+  const n = needle.toLowerCase(), h = haystack.toLowerCase();
+  if (!n) return 0;
+  const exact = h.indexOf(n);
+  if (exact >= 0) return 100 + n.length * 4 - exact / 100 + (exact === 0 || WORD_START.test(h[exact - 1]) ? 20 : 0);
+
+  let score = 0, from = 0, previous = -2;
+  for (const ch of n) {
+    const i = h.indexOf(ch, from);
+    if (i < 0) return null;
+    score += 1;
+    if (i === previous + 1) score += 3;
+    if (i === 0 || WORD_START.test(h[i - 1])) score += 2;
+    previous = i;
+    from = i + 1;
+  }
+  // Prefer matches packed into a short span
+  return score - (previous - h.indexOf(n[0])) / 50;
+}
+
+/**
+ * Tasks whose text, tags or file path match every word of `query`, best
+ * match first. Text matches count double.
+ */
+export function searchTasks(tasks: Task[], query: string): SearchResult[] {
+  const terms = query.trim().split(/\s+/).filter(Boolean);
+  if (!terms.length) return [];
+  const results: SearchResult[] = [];
+  tasks.forEach(task => {
+    let total = 0;
+    for (const term of terms) {
+      const text = fuzzyScore(term, task.text);
+      const scores = [
+        text === null ? null : text * 2,
+        ...task.tags.map(tag => fuzzyScore(term, tag)),
+        fuzzyScore(term, task.file),
+      ].filter((s): s is number => s !== null);
+      if (!scores.length) return;
+      total += Math.max(...scores);
+    }
+    results.push({ id: task.id, score: total });
+  });
+  return results.sort((a, b) => b.score - a.score);
+}
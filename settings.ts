@@ -0,0 +1,110 @@
+import { ColorPalette, COLORS } from "colors";
+import { TagMatchMode } from "filters";
+import { GroupMode } from "clusters";
+import { ColorEncoding, OutlineEncoding, SizeEncoding } from "encoding";
+import { DagDirection, LayoutMode } from "layouts";
+import { DEFAULT_SCOPE, GraphScope } from "scope";
+import { TaskSourceId } from "sources";
+
+export interface ViewFilters {
+  showCompleted: boolean;
+  showBlocked: boolean;
+  showReferences: boolean;
+  readyOnly: boolean;
+  showCriticalPath: boolean;
+  showProgress: boolean;
+  liveUpdate: boolean;
+  followEditor: boolean;
+  focusNote: boolean;
+  layout: LayoutMode;
+  dagDirection: DagDirection;
+  showWithoutTags: boolean;
+  selectedTags: string[];
+  tagMode: TagMatchMode;
+  colorBy: ColorEncoding;
+  sizeBy: SizeEncoding;
+  outlineBy: OutlineEncoding;
+  showLegend: boolean;
+  groupBy: GroupMode;
+  collapsedGroups: string[];
+}
+
+export interface NodeSizeSettings {
+  baseRadius: number;
+  depthStep: number;
+  minRadius: number;
+}
+
+export interface ForceSettings {
+  linkStrength: number;
+  hierarchyDistance: number;
+  dependencyDistance: number;
+  charge: number;
+  collisionStrength: number;
+}
+
+export type PinnedPositions = Record<string, { x: number; y: number }>;
+
+export interface TaskGraphSettings {
+  source: TaskSourceId;
+  scope: GraphScope;
+  filters: ViewFilters;
+  colors: ColorPalette;
+  nodeSize: NodeSizeSettings;
+  forces: ForceSettings;
+  pins: PinnedPositions;
+}
+
+export const DEFAULT_SETTINGS: TaskGraphSettings = {
+  source: 'parser',
+  scope: DEFAULT_SCOPE,
+  filters: {
+    showCompleted: true,
+    showBlocked: true,
+    showReferences: true,
+    readyOnly: false,
+    showCriticalPath: false,
+    showProgress: true,
+    liveUpdate: true,
+    followEditor: false,
+    focusNote: false,
+    layout: 'force',
+    dagDirection: 'TB',
+    showWithoutTags: false,
+    selectedTags: [],
+    tagMode: 'any',
+    colorBy: 'structure',
+    sizeBy: 'depth',
+    outlineBy: 'structure',
+    showLegend: true,
+    groupBy: 'none',
+    collapsedGroups: [],
+  },
+  colors: COLORS,
+  nodeSize: {
+    baseRadius: 25,
+    depthStep: 3,
+    minRadius: 6,
+  },
+  forces: {
+    linkStrength: 0.1,
+    hierarchyDistance: 80,
+    dependencyDistance: 120,
+    charge: -50,
+    collisionStrength: 0.2,
+  },
+  pins: {},
+};
+
+/** Merges stored plugin data over the defaults, one section at a time. */
+export function mergeSettings(data: Partial<TaskGraphSettings> | null): TaskGraphSettings {
+  return {
+    source: data?.source ?? DEFAULT_SETTINGS.source,
+    scope: { ...DEFAULT_SETTINGS.scope, ...data?.scope },
+    filters: { ...DEFAULT_SETTINGS.filters, ...data?.filters },
+    colors: { ...DEFAULT_SETTINGS.colors, ...data?.colors },
+    nodeSize: { ...DEFAULT_SETTINGS.nodeSize, ...data?.nodeSize },
+    forces: { ...DEFAULT_SETTINGS.forces, ...data?.forces },
+    pins: { ...data?.pins },
+  };
+}
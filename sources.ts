@@ -0,0 +1,63 @@
+import { App, EventRef, getLinkpath, ReferenceCache, TFile } from "obsidian";
+import { linkedBlockId } from "references";
+import { Task, TaskOutlink } from "types";
+
+export type TaskSourceId = 'parser' | 'tasks' | 'dataview';
+
+export const TASK_SOURCE_NAMES: Record<TaskSourceId, string> = {
+  parser: 'Built-in parser',
+  tasks: 'Tasks plugin',
+  dataview: 'Dataview',
+};
+
+// Community plugins behind the external sources
+const PLUGIN_IDS: Record<Exclude<TaskSourceId, 'parser'>, string> = {
+  tasks: 'obsidian-tasks-plugin',
+  dataview: 'dataview',
+};
+
+/** Where tasks come from. `changed` fires once `getTasks` has new results. */
+export interface TaskSource {
+  readonly ready: Promise<void>;
+  on(name: 'changed', callback: () => unknown): EventRef;
+  offref(ref: EventRef): void;
+  /** All tasks, grouped by file. */
+  getTasks(): Task[];
+  getFileTasks(path: string): Task[];
+}
+
+type AppWithPlugins = App & { plugins?: { enabledPlugins: Set<string>; plugins: Record<string, unknown> } };
+
+/** The instance of an enabled community plugin, or null. */
+export function communityPlugin<T>(app: App, id: string): T | null {
+  const { plugins } = app as AppWithPlugins;
+  return plugins?.enabledPlugins.has(id) ? (plugins.plugins[id] as T | undefined) ?? null : null;
+}
+
+export const sourceAvailable = (app: App, id: TaskSourceId) =>
+  id === 'parser' || !!communityPlugin(app, PLUGIN_IDS[id]);
+
+export const sourcePlugin = <T>(app: App, id: Exclude<TaskSourceId, 'parser'>) => communityPlugin<T>(app, PLUGIN_IDS[id]);
+
+/** Fills in block ids and the links on each task's line from the metadata cache. */
+export function annotateTasks(app: App, file: TFile, tasks: Task[]) {
+  const cache = app.metadataCache.getFileCache(file);
+  const references = [
+    ...(cache?.links ?? []).map(ref => ({ ref, embed: false })),
+    ...(cache?.embeds ?? []).map(ref => ({ ref, embed: true })),
+  ];
+  tasks.forEach(task => {
+    const listItem = cache?.listItems?.find(item => item.position.start.line === task.line);
+    task.blockId = task.blockId ?? listItem?.id;
+    task.outlinks = references
+      .filter(({ ref }) => ref.position.start.line === task.line)
+      .map(({ ref, embed }) => resolveLink(app, ref, embed, file));
+  });
+}
+
+function resolveLink(app: App, ref: ReferenceCache, embed: boolean, source: TFile): TaskOutlink {
+  const linkpath = getLinkpath(ref.link);
+  // `[[#^id]]` points into the note itself
+  const target = linkpath ? app.metadataCache.getFirstLinkpathDest(linkpath, source.path) : source;
+  return { link: ref.link, path: target?.path ?? null, blockId: linkedBlockId(ref.link), embed };
+}
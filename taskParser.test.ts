@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import { fallbackId, formatDate, parseDate, parseTaskLine, parseTasks } from "taskParser";
+
+const parse = (line: string) => parseTaskLine(line, 'note.md', 0)?.task;
+
+describe('parseTaskLine', () => {
+  it('ignores lines that are not checklist items', () => {
+    expect(parse('- plain item')).toBeUndefined();
+    expect(parse('some text [ ] here')).toBeUndefined();
+  });
+
+  it('reads emoji dates', () => {
+    const task = parse('- [ ] Write ⏳ 2024-05-01 🛫 2024-04-28 📅 2024-05-03 ➕ 2024-04-20')!;
+    expect(task.text).toBe('Write');
+    expect(formatDate(task.scheduled!)).toBe('2024-05-01');
+    expect(formatDate(task.start!)).toBe('2024-04-28');
+    expect(formatDate(task.due!)).toBe('2024-05-03');
+    expect(formatDate(task.created!)).toBe('2024-04-20');
+  });
+
+  it('reads done and cancelled dates', () => {
+    expect(formatDate(parse('- [x] Ship ✅ 2024-05-02')!.done!)).toBe('2024-05-02');
+    expect(formatDate(parse('- [-] Drop ❌ 2024-05-02')!.cancelledDate!)).toBe('2024-05-02');
+  });
+
+  it('reads priorities', () => {
+    expect(parse('- [ ] A 🔺')!.priority).toBe('highest');
+    expect(parse('- [ ] A ⏫')!.priority).toBe('high');
+    expect(parse('- [ ] A 🔼')!.priority).toBe('medium');
+    expect(parse('- [ ] A 🔽')!.priority).toBe('low');
+    expect(parse('- [ ] A ⏬')!.priority).toBe('lowest');
+    expect(parse('- [ ] A')!.priority).toBe('none');
+  });
+
+  it('reads recurrence', () => {
+    const task = parse('- [ ] Water plants 🔁 every week 📅 2024-05-03')!;
+    expect(task.recurrence).toBe('every week');
+    expect(task.text).toBe('Water plants');
+  });
+
+  it('keeps text written after the recurrence rule', () => {
+    const task = parse('- [ ] 🔁 every week Buy milk')!;
+    expect(task.recurrence).toBe('every week');
+    expect(task.text).toBe('Buy milk');
+    const monthly = parse('- [ ] 🔁 every 2 months on the 1st, Monday when done Pay rent #home')!;
+    expect(monthly.recurrence).toBe('every 2 months on the 1st, Monday when done');
+    expect(monthly.text).toBe('Pay rent');
+  });
+
+  it('reads 🆔 and ⛔ blockers', () => {
+    const task = parse('- [ ] Deploy 🆔 deploy ⛔ build, test ⛔ review')!;
+    expect(task.id).toBe('deploy');
+    expect(task.generatedId).toBe(false);
+    expect(task.blockers).toEqual(['build', 'test', 'review']);
+    expect(task.text).toBe('Deploy');
+  });
+
+  it('reads dataview fields', () => {
+    const task = parse('- [ ] Deploy [id:: deploy] [dependsOn:: build, test] [due:: 2024-05-03] (priority:: high) [owner:: me]')!;
+    expect(task.id).toBe('deploy');
+    expect(task.blockers).toEqual(['build', 'test']);
+    expect(formatDate(task.due!)).toBe('2024-05-03');
+    expect(task.priority).toBe('high');
+    expect(task.text).toBe('Deploy [owner:: me]');
+  });
+
+  it('generates an id from the position when none is given', () => {
+    const task = parseTaskLine('- [ ] Plain', 'dir/note.md', 7)!.task;
+    expect(task.id).toBe(fallbackId('dir/note.md', 7));
+    expect(task.generatedId).toBe(true);
+  });
+
+  it('reads block ids', () => {
+    const task = parse('- [ ] Linked task ^abc-123')!;
+    expect(task.blockId).toBe('abc-123');
+    expect(task.text).toBe('Linked task');
+  });
+
+  it('reads status', () => {
+    expect(parse('- [x] A')!.completed).toBe(true);
+    expect(parse('- [X] A')!.completed).toBe(true);
+    const cancelled = parse('- [-] A')!;
+    expect(cancelled.cancelled).toBe(true);
+    expect(cancelled.completed).toBe(false);
+    expect(parse('- [/] A')!.status).toBe('/');
+  });
+
+  it('reads tags, but not numbers', () => {
+    const task = parse('- [ ] Fix issue #123 for #Project/Alpha and #want')!;
+    expect(task.tags).toEqual(['#project/alpha', '#want']);
+    expect(task.text).toBe('Fix issue #123 for and');
+  });
+
+  it('accepts other bullets', () => {
+    expect(parse('* [ ] Star')!.text).toBe('Star');
+    expect(parse('+ [ ] Plus')!.text).toBe('Plus');
+    expect(parse('1. [ ] Numbered')!.text).toBe('Numbered');
+    expect(parse('2) [ ] Paren')!.text).toBe('Paren');
+  });
+});
+
+describe('parseTasks', () => {
+  it('nests subtasks by indentation', () => {
+    const tasks = parseTasks([
+      '- [ ] Root',
+      '  - [ ] Child',
+      '    - [ ] Grandchild',
+      '  - [ ] Second child',
+      'Some text',
+      '- [ ] Other root',
+    ].join('\n'), 'note.md');
+    const [root, child, grandchild, second, other] = tasks;
+    expect(tasks).toHaveLength(5);
+    expect(root.children.map(t => t.text)).toEqual(['Child', 'Second child']);
+    expect(child.children).toEqual([grandchild]);
+    expect(grandchild.parent).toBe(child.id);
+    expect(grandchild.depth).toBe(2);
+    expect(second.parent).toBe(root.id);
+    expect(other.parent).toBeNull();
+    expect(other.line).toBe(5);
+  });
+
+  it('handles CRLF line endings', () => {
+    const tasks = parseTasks('- [ ] One ^a\r\n\t- [x] Two 📅 2024-05-03\r\n', 'note.md');
+    expect(tasks.map(t => t.text)).toEqual(['One', 'Two']);
+    expect(tasks[0].blockId).toBe('a');
+    expect(formatDate(tasks[1].due!)).toBe('2024-05-03');
+    expect(tasks[1].parent).toBe(tasks[0].id);
+  });
+});
+
+describe('parseDate', () => {
+  it('rejects invalid dates', () => {
+    expect(parseDate('2024-02-30')).toBeNull();
+    expect(parseDate('soon')).toBeNull();
+    expect(formatDate(parseDate('2024-02-29')!)).toBe('2024-02-29');
+  });
+});
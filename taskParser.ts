@@ -0,0 +1,212 @@
+import { Task, TaskPriority } from "types";
+
+type DateField = 'due' | 'scheduled' | 'start' | 'created' | 'done' | 'cancelledDate';
+
+export interface ParsedTaskLine {
+  task: Task;
+  indent: number;
+}
+
+const VS = '\\uFE0F?';
+const DATE = '(\\d{4}-\\d{2}-\\d{2})';
+const ID = '[a-zA-Z0-9_-]+';
+
+const TASK_LINE = /^(?:[-*+]|\d+[.)])\s+\[(.)\]\s*(.+)$/;
+const BLOCK_ID = /(?:^|\s)\^([a-zA-Z0-9-]+)\s*$/;
+const TAG = /(^|\s)#([^\s#,;:!?()[\]{}"'`]+)/g;
+const INLINE_FIELD = /[[(]\s*([a-zA-Z]+)\s*::\s*([^\])]*?)\s*[\])]/g;
+
+const DATE_SIGNIFIERS: Record<DateField, string[]> = {
+  due: ['📅', '📆', '🗓'],
+  scheduled: ['⏳', '⌛'],
+  start: ['🛫'],
+  created: ['➕'],
+  done: ['✅'],
+  cancelledDate: ['❌'],
+};
+
+const PRIORITY_SIGNIFIERS: Record<string, TaskPriority> = {
+  '🔺': 'highest',
+  '⏫': 'high',
+  '🔼': 'medium',
+  '🔽': 'low',
+  '⏬': 'lowest',
+};
+
+// Dataview-style field names as used by the Tasks plugin
+const DATE_FIELDS: Record<string, DateField> = {
+  due: 'due',
+  scheduled: 'scheduled',
+  start: 'start',
+  created: 'created',
+  completion: 'done',
+  cancelled: 'cancelledDate',
+};
+
+const PRIORITIES: TaskPriority[] = ['highest', 'high', 'medium', 'none', 'low', 'lowest'];
+
+const anyOf = (signifiers: string[]) => `(?:${signifiers.join('|')})${VS}`;
+
+const ID_RE = new RegExp(`🆔${VS}\\s*(${ID})`);
+const BLOCKERS_RE = new RegExp(`⛔${VS}\\s*(${ID}(?:\\s*,\\s*${ID})*)`, 'g');
+// Words a recurrence rule is made of, so task text after the rule is kept
+const RECURRENCE_WORD = `(?:${[
+  'every', 'other', 'on', 'the', 'and', 'in', 'of', 'when', 'done', 'last',
+  '\\d+(?:st|nd|rd|th)?', '(?:first|second|third|fourth|fifth)',
+  '(?:day|weekday|week|month|year)s?',
+  '(?:mon|tues|wednes|thurs|fri|satur|sun)days?',
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+].join('|')})\\b`;
+const RECURRENCE_RE = new RegExp(`🔁${VS}\\s*(${RECURRENCE_WORD}(?:[\\s,]+${RECURRENCE_WORD})*)`, 'i');
+const PRIORITY_RE = new RegExp(anyOf(Object.keys(PRIORITY_SIGNIFIERS)));
+const DATE_RES = (Object.keys(DATE_SIGNIFIERS) as DateField[]).map(field =>
+  [field, new RegExp(`${anyOf(DATE_SIGNIFIERS[field])}\\s*${DATE}`)] as const
+);
+
+/** Parses a `YYYY-MM-DD` string as a local calendar date. */
+export function parseDate(value: string): Date | null {
+  const m = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!m) return null;
+  const date = new Date(+m[1], +m[2] - 1, +m[3]);
+  return date.getMonth() === +m[2] - 1 ? date : null;
+}
+
+/** Formats a date as `YYYY-MM-DD` in local time. */
+export function formatDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** Id given to tasks that declare no 🆔 of their own. */
+export const fallbackId = (file: string, line: number) => `task-${file}-${line}`;
+
+const splitIds = (value: string) => value.split(',').map(s => s.trim()).filter(Boolean);
+
+/**
+ * Parses a single markdown line into a task. Returns null when the line
+ * is not a checklist item. Hierarchy fields are left empty; see `parseTasks`.
+ */
+export function parseTaskLine(line: string, file: string, lineNumber: number): ParsedTaskLine | null {
+  const trimmed = line.trimStart();
+  const indent = line.length - trimmed.length;
+  const m = trimmed.match(TASK_LINE);
+  if (!m) return null;
+
+  const status = m[1];
+  let text = m[2];
+
+  let id: string | null = null;
+  const blockers: string[] = [];
+  let priority: TaskPriority = 'none';
+  let recurrence: string | null = null;
+  const dates: Record<DateField, Date | null> = {
+    due: null, scheduled: null, start: null, created: null, done: null, cancelledDate: null,
+  };
+
+  // Block id
+  let blockId: string | undefined;
+  const blockM = text.match(BLOCK_ID);
+  if (blockM) {
+    blockId = blockM[1];
+    text = text.slice(0, blockM.index);
+  }
+
+  // Dataview fields
+  text = text.replace(INLINE_FIELD, (field, rawKey: string, value: string) => {
+    const key = rawKey.toLowerCase();
+    if (key === 'id') {
+      id = id ?? value;
+    } else if (key === 'dependson') {
+      blockers.push(...splitIds(value));
+    } else if (key === 'priority' && PRIORITIES.includes(value.toLowerCase() as TaskPriority)) {
+      priority = value.toLowerCase() as TaskPriority;
+    } else if (key === 'repeat') {
+      recurrence = value;
+    } else if (DATE_FIELDS[key]) {
+      dates[DATE_FIELDS[key]] = parseDate(value);
+    } else {
+      return field;
+    }
+    return ' ';
+  });
+
+  // ID & blockers
+  const idM = text.match(ID_RE);
+  if (idM) {
+    id = id ?? idM[1];
+    text = text.replace(ID_RE, ' ');
+  }
+  for (const bm of text.matchAll(BLOCKERS_RE)) {
+    blockers.push(...splitIds(bm[1]));
+  }
+  text = text.replace(BLOCKERS_RE, ' ');
+
+  // Dates
+  for (const [field, re] of DATE_RES) {
+    const dm = text.match(re);
+    if (!dm) continue;
+    dates[field] = parseDate(dm[1]);
+    text = text.replace(re, ' ');
+  }
+
+  // Priority & recurrence
+  const prioM = text.match(PRIORITY_RE);
+  if (prioM) {
+    priority = PRIORITY_SIGNIFIERS[prioM[0].replace('\uFE0F', '')];
+    text = text.replace(PRIORITY_RE, ' ');
+  }
+  const recM = text.match(RECURRENCE_RE);
+  if (recM) {
+    recurrence = recM[1].trim();
+    text = text.replace(RECURRENCE_RE, ' ');
+  }
+
+  // Tags
+  const tags: string[] = [];
+  text = text.replace(TAG, (match, lead: string, name: string) => {
+    if (/^\d+$/.test(name)) return match;
+    const tag = `#${name}`.toLowerCase();
+    if (!tags.includes(tag)) tags.push(tag);
+    return lead;
+  });
+
+  const task: Task = {
+    id: id ?? fallbackId(file, lineNumber),
+    generatedId: !id,
+    text: text.replace(/\s+/g, ' ').trim(),
+    status,
+    completed: status === 'x' || status === 'X',
+    cancelled: status === '-',
+    children: [], parent: null,
+    blockers: Array.from(new Set(blockers)),
+    file, line: lineNumber, depth: 0,
+    tags, priority, recurrence,
+    ...dates,
+    blockId,
+  };
+  return { task, indent };
+}
+
+/** Parses every task in a markdown document and links subtasks to their parents by indentation. */
+export function parseTasks(content: string, file: string): Task[] {
+  const tasks: Task[] = [];
+  const stack: { task: Task; indent: number }[] = [];
+  content.split('\n').forEach((line, i) => {
+    const parsed = parseTaskLine(line.replace(/\r$/, ''), file, i);
+    if (!parsed) return;
+    const { task, indent } = parsed;
+    while (stack.length && stack[stack.length - 1].indent >= indent) {
+      stack.pop();
+    }
+    if (stack.length) {
+      const parent = stack[stack.length - 1].task;
+      task.parent = parent.id;
+      task.depth = parent.depth + 1;
+      parent.children.push(task);
+    }
+    stack.push({ task, indent });
+    tasks.push(task);
+  });
+  return tasks;
+}
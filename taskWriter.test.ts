@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { parseTaskLine } from "taskParser";
+import { addBlocker, generateId, hasExplicitId, lineMatches, removeBlocker, setDate, setId, toggleDone } from "taskWriter";
+
+const task = (line: string, lineNumber = 0) => parseTaskLine(line, 'note.md', lineNumber)!.task;
+
+describe('toggleDone', () => {
+  const today = new Date(2024, 4, 10);
+
+  it('marks a task done with the date, before its block id', () => {
+    expect(toggleDone('- [ ] Ship ^abc', today)).toBe('- [x] Ship ✅ 2024-05-10 ^abc');
+  });
+
+  it('reopens a task and drops its done date', () => {
+    expect(toggleDone('  - [x] Ship ✅ 2024-05-01 📅 2024-05-03', today)).toBe('  - [ ] Ship 📅 2024-05-03');
+    expect(toggleDone('- [X] Ship [completion:: 2024-05-01]', today)).toBe('- [ ] Ship');
+  });
+
+  it('leaves other lines alone', () => {
+    expect(toggleDone('- not a task', today)).toBe('- not a task');
+  });
+});
+
+describe('blockers', () => {
+  it('adds to an existing list once', () => {
+    expect(addBlocker('- [ ] A ⛔ b', 'c')).toBe('- [ ] A ⛔ b,c');
+    expect(addBlocker('- [ ] A ⛔ b', 'b')).toBe('- [ ] A ⛔ b');
+    expect(addBlocker('- [ ] A ^blk', 'b')).toBe('- [ ] A ⛔ b ^blk');
+    expect(addBlocker('- [ ] A [dependsOn:: b] 📅 2024-05-03', 'c')).toBe('- [ ] A [dependsOn:: b, c] 📅 2024-05-03');
+  });
+
+  it('removes from emoji and dataview lists', () => {
+    expect(removeBlocker('- [ ] A ⛔ b,c 📅 2024-05-03', 'b')).toBe('- [ ] A ⛔ c 📅 2024-05-03');
+    expect(removeBlocker('- [ ] A ⛔ b 📅 2024-05-03', 'b')).toBe('- [ ] A 📅 2024-05-03');
+    expect(removeBlocker('- [ ] A [dependsOn:: b, c]', 'c')).toBe('- [ ] A [dependsOn:: b]');
+    expect(removeBlocker('- [ ] A [dependsOn:: b]', 'b')).toBe('- [ ] A');
+    expect(removeBlocker('- [ ] A  B ⛔ b   📅 2024-05-03', 'b')).toBe('- [ ] A  B 📅 2024-05-03');
+    expect(removeBlocker('- [ ] ⛔ b Call  home', 'b')).toBe('- [ ] Call  home');
+  });
+});
+
+describe('ids', () => {
+  it('tells declared ids from generated ones', () => {
+    expect(hasExplicitId('- [ ] A 🆔 a', task('- [ ] A 🆔 a'))).toBe(true);
+    expect(hasExplicitId('- [ ] A', task('- [ ] A'))).toBe(false);
+    expect(setId('- [ ] A ^blk', 'xyz')).toBe('- [ ] A 🆔 xyz ^blk');
+  });
+
+  it('generates unused ids', () => {
+    const id = generateId(new Set(['abc123']));
+    expect(id).toMatch(/^[a-z0-9]{6}$/);
+    expect(id).not.toBe('abc123');
+  });
+});
+
+describe('setDate', () => {
+  it('replaces emoji and dataview dates', () => {
+    expect(setDate('- [ ] A ⏳ 2024-01-01', 'scheduled', new Date(2024, 4, 10))).toBe('- [ ] A ⏳ 2024-05-10');
+    expect(setDate('- [ ] A [start:: 2024-01-01]', 'start', null)).toBe('- [ ] A');
+  });
+});
+
+describe('lineMatches', () => {
+  it('matches a line that still holds the task', () => {
+    const t = task('- [ ] A 🆔 a', 3);
+    expect(lineMatches('- [x] A 🆔 a', t)).toBe(true);
+    expect(lineMatches('- [ ] B 🆔 a', t)).toBe(false);
+    expect(lineMatches(undefined, t)).toBe(false);
+  });
+
+  it('matches generated ids by text, since they follow the task', () => {
+    const t = { ...task('- [ ] A', 3), id: 'task-note.md-1' };
+    expect(lineMatches('- [ ] A', t)).toBe(true);
+    expect(lineMatches('- [ ] A 🆔 a', t)).toBe(false);
+  });
+});
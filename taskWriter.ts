@@ -0,0 +1,112 @@
+import { formatDate, parseTaskLine } from "taskParser";
+import { Task } from "types";
+
+export type EditableDate = 'scheduled' | 'start';
+
+const DATE_SIGNIFIER: Record<EditableDate, string> = {
+  scheduled: '⏳',
+  start: '🛫',
+};
+
+const CHECKBOX = /^(\s*(?:[-*+]|\d+[.)])\s+\[)(.)(\])/;
+const BLOCK_ID = /(\s\^[a-zA-Z0-9-]+\s*)$/;
+const DONE = /\s*(?:✅️?\s*\d{4}-\d{2}-\d{2}|[[(]completion::[^\])]*[\])])/g;
+const BLOCKERS = /⛔️?\s*([a-zA-Z0-9_-]+(?:\s*,\s*[a-zA-Z0-9_-]+)*)/g;
+const DEPENDS_ON = /([[(])\s*dependsOn\s*::([^\])]*)([\])])/gi;
+// The same fields with the spaces around them, which shrink to one when a field is removed
+const BLOCKERS_FIELD = new RegExp(`([ \\t]*)${BLOCKERS.source}([ \\t]*)`, 'g');
+const DEPENDS_ON_FIELD = new RegExp(`([ \\t]*)${DEPENDS_ON.source}([ \\t]*)`, 'gi');
+
+const splitIds = (ids: string) => ids.split(',').map(s => s.trim()).filter(Boolean);
+
+/**
+ * True when `line` still holds `task`. Edits are refused otherwise, since
+ * the file may have changed after the graph was built.
+ */
+export function lineMatches(line: string | undefined, task: Task): boolean {
+  if (line === undefined) return false;
+  const parsed = parseTaskLine(line, task.file, task.line);
+  if (!parsed || parsed.task.text !== task.text) return false;
+  // Generated ids follow the task across edits, so they cannot be compared
+  return parsed.task.generatedId ? !!task.generatedId : parsed.task.id === task.id;
+}
+
+/** Whether the line declares its own 🆔 or `[id:: ]` rather than relying on a generated one. */
+export function hasExplicitId(line: string, task: Task): boolean {
+  const parsed = parseTaskLine(line, task.file, task.line);
+  return !!parsed && !parsed.task.generatedId;
+}
+
+/** Random id in the style of the Tasks plugin, avoiding ids already in use. */
+export function generateId(existing: Set<string>): string {
+  let id: string;
+  do {
+    id = Math.random().toString(36).slice(2, 8).padEnd(6, '0');
+  } while (existing.has(id));
+  return id;
+}
+
+// Appends a field before any trailing `^block-id`, which has to stay last
+function appendField(line: string, field: string): string {
+  const m = line.match(BLOCK_ID);
+  const body = m ? line.slice(0, m.index) : line;
+  return `${body.trimEnd()} ${field}${m ? m[1] : ''}`;
+}
+
+/**
+ * Flips the checkbox and adds or drops the ✅ date. It creates no next
+ * occurrence, so recurring tasks are completed in the editor instead.
+ */
+export function toggleDone(line: string, today = new Date()): string {
+  const m = line.match(CHECKBOX);
+  if (!m) return line;
+  const done = m[2] === 'x' || m[2] === 'X';
+  const toggled = line.replace(CHECKBOX, `$1${done ? ' ' : 'x'}$3`).replace(DONE, '');
+  return done ? toggled : appendField(toggled, `✅ ${formatDate(today)}`);
+}
+
+export function setId(line: string, id: string): string {
+  return appendField(line, `🆔 ${id}`);
+}
+
+// Extends the first ⛔ or `[dependsOn:: ]` field, or adds a ⛔ field when there is none
+export function addBlocker(line: string, id: string): string {
+  let added = false;
+  const updated = line
+    .replace(BLOCKERS, (match, ids: string) => {
+      if (added) return match;
+      added = true;
+      const list = splitIds(ids);
+      return list.includes(id) ? match : `⛔ ${[...list, id].join(',')}`;
+    })
+    .replace(DEPENDS_ON, (match, open: string, ids: string, close: string) => {
+      if (added) return match;
+      added = true;
+      const list = splitIds(ids);
+      return list.includes(id) ? match : `${open}dependsOn:: ${[...list, id].join(', ')}${close}`;
+    });
+  return added ? updated : appendField(line, `⛔ ${id}`);
+}
+
+export function removeBlocker(line: string, id: string): string {
+  return line
+    .replace(BLOCKERS_FIELD, (match, lead: string, ids: string, trail: string) => {
+      const list = splitIds(ids).filter(s => s !== id);
+      if (list.length) return `${lead}⛔ ${list.join(',')}${trail}`;
+      return lead && trail ? ' ' : '';
+    })
+    .replace(DEPENDS_ON_FIELD, (match, lead: string, open: string, ids: string, close: string, trail: string) => {
+      const list = splitIds(ids).filter(s => s !== id);
+      if (list.length) return `${lead}${open}dependsOn:: ${list.join(', ')}${close}${trail}`;
+      return lead && trail ? ' ' : '';
+    })
+    .trimEnd();
+}
+
+export function setDate(line: string, field: EditableDate, date: Date | null): string {
+  const signifier = DATE_SIGNIFIER[field];
+  const emoji = new RegExp(`\\s*${signifier}\\uFE0F?\\s*\\d{4}-\\d{2}-\\d{2}`, 'g');
+  const inline = new RegExp(`\\s*[[(]${field}::[^\\])]*[\\])]`, 'gi');
+  const cleared = line.replace(emoji, '').replace(inline, '');
+  return date ? appendField(cleared, `${signifier} ${formatDate(date)}`) : cleared;
+}
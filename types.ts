@@ -1,7 +1,11 @@
+export type TaskPriority = 'highest' | 'high' | 'medium' | 'none' | 'low' | 'lowest';
+
 export interface Task {
   id: string;
   text: string;
+  status: string;
   completed: boolean;
+  cancelled: boolean;
   children: Task[];
   parent: string | null;
   blockers: string[];
@@ -9,10 +13,28 @@ export interface Task {
   line: number;
   depth: number;
   tags: string[];
+  priority: TaskPriority;
+  recurrence: string | null;
   scheduled: Date | null;
   start: Date | null;
-  outlinks?: { subpath: string }[];
+  due: Date | null;
+  done: Date | null;
+  created: Date | null;
+  cancelledDate: Date | null;
+  outlinks?: TaskOutlink[];
   blockId?: string;
+  /** Set when the line has no 🆔 and the id was made up from its position. */
+  generatedId?: boolean;
+}
+
+/** A wikilink, markdown link or embed on the task's own line. */
+export interface TaskOutlink {
+  /** Link target as written, e.g. `note#^id`. */
+  link: string;
+  /** Path of the linked note, or null when it does not exist. */
+  path: string | null;
+  blockId: string | null;
+  embed: boolean;
 }
 
 export interface TaskNode extends Task {
@@ -20,10 +42,12 @@ export interface TaskNode extends Task {
   y?: number;
   fx?: number | null;
   fy?: number | null;
+  /** Set on the node standing in for a collapsed group. */
+  summary?: { key: string; done: number; total: number };
 }
 
 export interface TaskLink {
   source: string;
   target: string;
-  type: 'dependency' | 'hierarchy';
+  type: 'dependency' | 'hierarchy' | 'reference';
 }
@@ -0,0 +1,20 @@
+import { existsSync } from "fs";
+import { resolve } from "path";
+import { defineConfig } from "vitest/config";
+
+// Sources import each other by bare name through tsconfig's `baseUrl: "."`
+const root = __dirname;
+
+export default defineConfig({
+  plugins: [{
+    name: 'base-url',
+    resolveId(id) {
+      const file = resolve(root, `${id}.ts`);
+      return /^[\w-]+$/.test(id) && existsSync(file) ? file : null;
+    },
+  }],
+  test: {
+    include: ['**/*.test.ts'],
+    exclude: ['node_modules/**'],
+  },
+});